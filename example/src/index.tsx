@@ -7,7 +7,6 @@ import {
   I18nManager,
   Dimensions,
   ScaledSize,
-  Linking,
 } from 'react-native';
 import { enableScreens } from 'react-native-screens';
 import MaterialIcons from 'react-native-vector-icons/MaterialIcons';
@@ -21,7 +20,6 @@ import {
   Text,
 } from 'react-native-paper';
 import {
-  InitialState,
   NavigationContainer,
   DefaultTheme,
   DarkTheme,
@@ -133,40 +131,21 @@ export default function App() {
   const [theme, setTheme] = React.useState(DefaultTheme);
 
   const [isReady, setIsReady] = React.useState(Platform.OS === 'web');
-  const [initialState, setInitialState] = React.useState<
-    InitialState | undefined
-  >();
 
   React.useEffect(() => {
-    const restoreState = async () => {
+    const restoreTheme = async () => {
       try {
-        const initialUrl = await Linking.getInitialURL();
+        const themeName = await AsyncStorage.getItem(THEME_PERSISTENCE_KEY);
 
-        if (Platform.OS !== 'web' || initialUrl === null) {
-          const savedState = await AsyncStorage.getItem(
-            NAVIGATION_PERSISTENCE_KEY
-          );
-
-          const state = savedState ? JSON.parse(savedState) : undefined;
-
-          if (state !== undefined) {
-            setInitialState(state);
-          }
-        }
+        setTheme(themeName === 'dark' ? DarkTheme : DefaultTheme);
+      } catch (e) {
+        // Ignore
       } finally {
-        try {
-          const themeName = await AsyncStorage.getItem(THEME_PERSISTENCE_KEY);
-
-          setTheme(themeName === 'dark' ? DarkTheme : DefaultTheme);
-        } catch (e) {
-          // Ignore
-        }
-
         setIsReady(true);
       }
     };
 
-    restoreState();
+    restoreTheme();
   }, []);
 
   const paperTheme = React.useMemo(() => {
@@ -212,13 +191,7 @@ export default function App() {
       )}
       <NavigationContainer
         ref={navigationRef}
-        initialState={initialState}
-        onStateChange={(state) =>
-          AsyncStorage.setItem(
-            NAVIGATION_PERSISTENCE_KEY,
-            JSON.stringify(state)
-          )
-        }
+        persistence={{ storage: AsyncStorage, key: NAVIGATION_PERSISTENCE_KEY }}
         theme={theme}
         linking={{
           // To test deep linking on, run the following in the Terminal:
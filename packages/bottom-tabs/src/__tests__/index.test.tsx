@@ -31,3 +31,44 @@ it('renders a bottom tab navigator with screens', async () => {
 
   expect(queryByText('Screen B')).not.toBeNull();
 });
+
+it('emits transition events when switching tabs', async () => {
+  const Test = ({ route, navigation }: BottomTabScreenProps<ParamListBase>) => (
+    <View>
+      <Text>Screen {route.name}</Text>
+      <Button onPress={() => navigation.navigate('B')} title="Go to B" />
+    </View>
+  );
+
+  const Tab = createBottomTabNavigator();
+
+  const events: string[] = [];
+
+  const listeners = ({ route }: { route: { name: string } }) => ({
+    transitionStart: (e: any) =>
+      events.push(`transitionStart: ${route.name}, ${e.data.closing}`),
+    transitionEnd: (e: any) =>
+      events.push(`transitionEnd: ${route.name}, ${e.data.closing}`),
+  });
+
+  const { findByText } = render(
+    <NavigationContainer>
+      <Tab.Navigator>
+        <Tab.Screen name="A" component={Test} listeners={listeners} />
+        <Tab.Screen name="B" component={Test} listeners={listeners} />
+      </Tab.Navigator>
+    </NavigationContainer>
+  );
+
+  expect(events).toEqual([]);
+
+  fireEvent.press(await findByText('Go to B'));
+
+  // Bottom tabs switch screens without an animation, so the transition ends immediately
+  expect(events).toEqual([
+    'transitionStart: A, true',
+    'transitionStart: B, false',
+    'transitionEnd: A, true',
+    'transitionEnd: B, false',
+  ]);
+});
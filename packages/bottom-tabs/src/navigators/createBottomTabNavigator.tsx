@@ -1,6 +1,7 @@
 import * as React from 'react';
 import {
   useNavigationBuilder,
+  useFocusTransitionEvents,
   createNavigatorFactory,
   DefaultNavigatorOptions,
   TabRouter,
@@ -19,8 +20,11 @@ type Props = DefaultNavigatorOptions<BottomTabNavigationOptions> &
   BottomTabNavigationConfig;
 
 function BottomTabNavigator({
+  id,
   initialRouteName,
+  mergeParams,
   backBehavior,
+  historyLimit,
   children,
   screenOptions,
   ...rest
@@ -31,12 +35,17 @@ function BottomTabNavigator({
     BottomTabNavigationOptions,
     BottomTabNavigationEventMap
   >(TabRouter, {
+    id,
     initialRouteName,
+    mergeParams,
     backBehavior,
+    historyLimit,
     children,
     screenOptions,
   });
 
+  useFocusTransitionEvents(state, navigation);
+
   return (
     <BottomTabView
       {...rest}
@@ -236,6 +236,8 @@ export default function BottomTabBar({
               type: 'tabPress',
               target: route.key,
               canPreventDefault: true,
+              // Nested navigators also receive it, e.g. so that nested stacks can reset
+              descend: true,
             });
 
             if (!focused && !event.defaultPrevented) {
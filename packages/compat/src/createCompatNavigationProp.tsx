@@ -70,7 +70,6 @@ export default function createCompatNavigationProp<
             }
           };
 
-          // @ts-expect-error: this event may not exist in this navigator
           unsubscribe = navigation.addListener('transitionEnd', listener);
           context.subscriptions.didFocus.set(callback, unsubscribe);
           break;
@@ -82,7 +81,6 @@ export default function createCompatNavigationProp<
             }
           };
 
-          // @ts-expect-error: this event may not exist in this navigator
           unsubscribe = navigation.addListener('transitionEnd', listener);
           context.subscriptions.didBlur.set(callback, unsubscribe);
           break;
@@ -11,6 +11,14 @@ import EnsureSingleNavigator from './EnsureSingleNavigator';
 import NavigationBuilderContext from './NavigationBuilderContext';
 import NavigationStateContext from './NavigationStateContext';
 import UnhandledActionContext from './UnhandledActionContext';
+import InvalidStateContext from './InvalidStateContext';
+import NavigatorTreeContext, {
+  NavigatorDescription,
+} from './NavigatorTreeContext';
+import BatchUpdatesContext from './BatchUpdatesContext';
+import TrackActionContext from './TrackActionContext';
+import RootStateContext from './RootStateContext';
+import NavigationMiddlewareContext from './NavigationMiddlewareContext';
 import { ScheduleUpdateContext } from './useScheduleUpdate';
 import useChildListeners from './useChildListeners';
 import useKeyedChildListeners from './useKeyedChildListeners';
@@ -22,13 +30,26 @@ import type {
   NavigationContainerEventMap,
   NavigationContainerRef,
   NavigationContainerProps,
+  NavigatorTree,
 } from './types';
 
 type State = NavigationState | PartialState<NavigationState> | undefined;
 
-const NOT_INITIALIZED_ERROR =
+type ActionEvent = NavigationContainerEventMap['action']['data'];
+
+type TrackedAction = {
+  action: NavigationAction;
+  navigatorKey: string | undefined;
+};
+
+export const NOT_INITIALIZED_ERROR =
   "The 'navigation' object hasn't been initialized yet. This might happen if you don't have a navigator mounted, or if the navigator hasn't finished mounting. See https://reactnavigation.org/docs/navigating-without-navigation-prop#handling-initialization for more details.";
 
+/**
+ * Marker for the states from `initialState` which navigators discard if they contain screens which they don't have.
+ */
+export const DISCARD_IF_INVALID = Symbol('DISCARD_IF_INVALID');
+
 const serializableWarnings: string[] = [];
 
 try {
@@ -54,9 +75,11 @@ try {
  * Remove `key` and `routeNames` from the state objects recursively to get partial state.
  *
  * @param state Initial state object.
+ * @param discardIfInvalid Whether to mark the states to be discarded by the navigators if they're invalid.
  */
 const getPartialState = (
-  state: InitialState | undefined
+  state: InitialState | undefined,
+  discardIfInvalid?: boolean
 ): PartialState<NavigationState> | undefined => {
   if (state === undefined) {
     return;
@@ -67,6 +90,7 @@ const getPartialState = (
 
   return {
     ...partialState,
+    ...(discardIfInvalid ? { [DISCARD_IF_INVALID]: true } : null),
     stale: true,
     routes: state.routes.map((route) => {
       if (route.state === undefined) {
@@ -75,7 +99,10 @@ const getPartialState = (
         };
       }
 
-      return { ...route, state: getPartialState(route.state) };
+      return {
+        ...route,
+        state: getPartialState(route.state, discardIfInvalid),
+      };
     }),
   };
 };
@@ -85,6 +112,7 @@ const getPartialState = (
  * This should be rendered at the root wrapping the whole app.
  *
  * @param props.initialState Initial state object for the navigation tree.
+ * @param props.discardInvalidInitialState Whether navigators should start from their initial state instead of rehydrating the parts of `initialState` which contain screens they don't have.
  * @param props.onStateChange Callback which is called with the latest navigation state when it changes.
  * @param props.children Child elements to render the content.
  * @param props.ref Ref object which refers to the navigation object containing helper methods.
@@ -95,6 +123,9 @@ const BaseNavigationContainer = React.forwardRef(
       initialState,
       onStateChange,
       onUnhandledAction,
+      onInvalidState,
+      discardInvalidInitialState,
+      middleware,
       independent,
       children,
     }: NavigationContainerProps,
@@ -115,7 +146,10 @@ const BaseNavigationContainer = React.forwardRef(
       scheduleUpdate,
       flushUpdates,
     ] = useSyncState<State>(() =>
-      getPartialState(initialState == null ? undefined : initialState)
+      getPartialState(
+        initialState == null ? undefined : initialState,
+        discardInvalidInitialState
+      )
     );
 
     const isFirstMountRef = React.useRef<boolean>(true);
@@ -142,6 +176,8 @@ const BaseNavigationContainer = React.forwardRef(
       listeners.focus[0]((navigation) => navigation.dispatch(action));
     };
 
+    const isReady = () => listeners.focus[0] != null;
+
     const canGoBack = () => {
       if (listeners.focus[0] == null) {
         return false;
@@ -182,6 +218,208 @@ const BaseNavigationContainer = React.forwardRef(
 
     const emitter = useEventEmitter<NavigationContainerEventMap>();
 
+    const defaultOnUnhandledAction = React.useCallback(
+      (action: NavigationAction) => {
+        if (process.env.NODE_ENV === 'production') {
+          return;
+        }
+
+        const payload: Record<string, any> | undefined = action.payload;
+
+        let message = `The action '${action.type}'${
+          payload ? ` with payload ${JSON.stringify(action.payload)}` : ''
+        } was not handled by any navigator.`;
+
+        switch (action.type) {
+          case 'NAVIGATE':
+          case 'PUSH':
+          case 'REPLACE':
+          case 'POP_TO':
+          case 'JUMP_TO':
+            if (payload?.name) {
+              message += `\n\nDo you have a screen named '${payload.name}'?\n\nIf you're trying to navigate to a screen in a nested navigator, see https://reactnavigation.org/docs/nesting-navigators#navigating-to-a-screen-in-a-nested-navigator.`;
+            } else {
+              message += `\n\nYou need to pass the name of the screen to navigate to.\n\nSee https://reactnavigation.org/docs/navigation-actions for usage.`;
+            }
+
+            break;
+          case 'GO_BACK':
+          case 'POP':
+          case 'POP_TO_TOP':
+            message += `\n\nIs there any screen to go back to?`;
+            break;
+          case 'BATCH':
+            message += `\n\nIf any of the actions in a batch isn't handled, none of the actions are applied.`;
+            break;
+          case 'OPEN_DRAWER':
+          case 'CLOSE_DRAWER':
+          case 'TOGGLE_DRAWER':
+            message += `\n\nIs your screen inside a Drawer navigator?`;
+            break;
+        }
+
+        message += `\n\nThis is a development-only warning and won't be shown in production.`;
+
+        console.error(message);
+      },
+      []
+    );
+
+    const batchRef = React.useRef<{
+      actions: NavigationAction[];
+      events: ActionEvent[];
+      unhandled: boolean;
+    }>();
+
+    const onUnhandledActionRef = React.useRef(
+      onUnhandledAction ?? defaultOnUnhandledAction
+    );
+
+    React.useEffect(() => {
+      onUnhandledActionRef.current =
+        onUnhandledAction ?? defaultOnUnhandledAction;
+    });
+
+    const handleUnhandledAction = React.useCallback(
+      (action: NavigationAction) => {
+        if (batchRef.current) {
+          // The whole batch will be discarded and reported once it finishes
+          batchRef.current.unhandled = true;
+          return;
+        }
+
+        onUnhandledActionRef.current(action);
+      },
+      []
+    );
+
+    const batchUpdates = React.useCallback(
+      (callback: () => void, action?: NavigationAction) => {
+        if (batchRef.current) {
+          // If we're already in a batch, the outer batch will commit the changes
+          callback();
+          return;
+        }
+
+        const previousState = getState();
+        const previousRootState = getRootState();
+        const batch = {
+          actions: [] as NavigationAction[],
+          events: [] as ActionEvent[],
+          unhandled: false,
+        };
+
+        batchRef.current = batch;
+
+        try {
+          // The state changes are stored without re-rendering until we flush them
+          scheduleUpdate(callback);
+        } catch (e) {
+          setState(previousState);
+          throw e;
+        } finally {
+          batchRef.current = undefined;
+        }
+
+        const batchAction = action ?? CommonActions.batch(batch.actions);
+
+        if (batch.unhandled) {
+          // Roll back all changes made by the batch since the state wasn't committed yet
+          setState(previousState);
+          emitter.emit({
+            type: 'action',
+            data: {
+              action: batchAction,
+              state: previousRootState,
+              nextState: previousRootState,
+              handled: false,
+              navigatorKey: undefined,
+            },
+          });
+          onUnhandledActionRef.current(batchAction);
+          return;
+        }
+
+        emitter.emit({
+          type: '__unsafe_action__',
+          data: { action: batchAction, noop: getState() === previousState },
+        });
+
+        batch.events.forEach((data) => emitter.emit({ type: 'action', data }));
+
+        flushUpdates();
+      },
+      [emitter, flushUpdates, getRootState, getState, scheduleUpdate, setState]
+    );
+
+    const middlewareRef = React.useRef(middleware);
+
+    React.useEffect(() => {
+      middlewareRef.current = middleware;
+    });
+
+    const applyMiddleware = React.useCallback(
+      (action: NavigationAction, next: (action: NavigationAction) => void) => {
+        const run = (index: number, action: NavigationAction) => {
+          const current = middlewareRef.current?.[index];
+
+          if (current === undefined) {
+            next(action);
+            return;
+          }
+
+          current(action, getRootState, (action) => run(index + 1, action));
+        };
+
+        run(0, action);
+      },
+      [getRootState]
+    );
+
+    const navigatorsRef = React.useRef<
+      Record<string, NavigatorDescription | undefined>
+    >({});
+
+    const registerNavigator = React.useCallback(
+      (key: string, description: NavigatorDescription | undefined) => {
+        navigatorsRef.current[key] = description;
+      },
+      []
+    );
+
+    const getNavigatorTree = React.useCallback(() => {
+      const getTree = (state: NavigationState): NavigatorTree | undefined => {
+        const description = navigatorsRef.current[state.key];
+
+        if (description === undefined) {
+          return undefined;
+        }
+
+        const navigators = state.routes.reduce<Record<string, NavigatorTree>>(
+          (acc, route) => {
+            // Only navigators which have been rendered have a rehydrated state
+            const child =
+              route.state?.stale === false
+                ? getTree(route.state as NavigationState)
+                : undefined;
+
+            if (child !== undefined && !(route.name in acc)) {
+              acc[route.name] = child;
+            }
+
+            return acc;
+          },
+          {}
+        );
+
+        return { ...description, navigators };
+      };
+
+      const state = getRootState();
+
+      return state ? getTree(state) : undefined;
+    }, [getRootState]);
+
     const { addOptionsGetter, getCurrentOptions } = useOptionsGetters({});
 
     React.useImperativeHandle(ref, () => ({
@@ -200,16 +438,76 @@ const BaseNavigationContainer = React.forwardRef(
       ...emitter.create('root'),
       resetRoot,
       dispatch,
+      batch: (callback: (() => void) | NavigationAction[]) =>
+        typeof callback === 'function'
+          ? batchUpdates(callback)
+          : dispatch(CommonActions.batch(callback)),
       canGoBack,
       getRootState,
       dangerouslyGetState: () => state,
+      getId: () => undefined,
       dangerouslyGetParent: () => undefined,
       getCurrentRoute,
       getCurrentOptions,
+      getNavigatorTree,
+      isReady,
     }));
 
+    const rootStateContext = React.useMemo(
+      () => ({ ...emitter.create('root'), getRootState }),
+      [emitter, getRootState]
+    );
+
+    const trackedActionRef = React.useRef<TrackedAction>();
+
+    const trackAction = React.useCallback(
+      (action: NavigationAction, handle: () => boolean) => {
+        const previous = trackedActionRef.current;
+        const tracked: TrackedAction = { action, navigatorKey: undefined };
+        const state = getRootState();
+
+        trackedActionRef.current = tracked;
+
+        let handled;
+
+        try {
+          handled = handle();
+        } finally {
+          trackedActionRef.current = previous;
+        }
+
+        const data = {
+          action,
+          state,
+          nextState: getRootState(),
+          handled,
+          navigatorKey: tracked.navigatorKey,
+        };
+
+        if (batchRef.current) {
+          // Actions in a batch are emitted once the batch is committed
+          batchRef.current.events.push(data);
+        } else {
+          emitter.emit({ type: 'action', data });
+        }
+
+        return handled;
+      },
+      [emitter, getRootState]
+    );
+
     const onDispatchAction = React.useCallback(
-      (action: NavigationAction, noop: boolean) => {
+      (action: NavigationAction, noop: boolean, navigatorKey: string) => {
+        if (trackedActionRef.current?.action === action) {
+          trackedActionRef.current.navigatorKey = navigatorKey;
+        }
+
+        if (batchRef.current) {
+          // Actions in a batch are emitted together once the batch is committed
+          batchRef.current.actions.push(action);
+          return;
+        }
+
         emitter.emit({ type: '__unsafe_action__', data: { action, noop } });
       },
       [emitter]
@@ -343,57 +641,38 @@ const BaseNavigationContainer = React.forwardRef(
       isFirstMountRef.current = false;
     }, [getRootState, emitter, state]);
 
-    const defaultOnUnhandledAction = React.useCallback(
-      (action: NavigationAction) => {
-        if (process.env.NODE_ENV === 'production') {
-          return;
-        }
-
-        const payload: Record<string, any> | undefined = action.payload;
-
-        let message = `The action '${action.type}'${
-          payload ? ` with payload ${JSON.stringify(action.payload)}` : ''
-        } was not handled by any navigator.`;
-
-        switch (action.type) {
-          case 'NAVIGATE':
-          case 'PUSH':
-          case 'REPLACE':
-          case 'JUMP_TO':
-            if (payload?.name) {
-              message += `\n\nDo you have a screen named '${payload.name}'?\n\nIf you're trying to navigate to a screen in a nested navigator, see https://reactnavigation.org/docs/nesting-navigators#navigating-to-a-screen-in-a-nested-navigator.`;
-            } else {
-              message += `\n\nYou need to pass the name of the screen to navigate to.\n\nSee https://reactnavigation.org/docs/navigation-actions for usage.`;
-            }
+    const isReadyEmittedRef = React.useRef(false);
 
-            break;
-          case 'GO_BACK':
-          case 'POP':
-          case 'POP_TO_TOP':
-            message += `\n\nIs there any screen to go back to?`;
-            break;
-          case 'OPEN_DRAWER':
-          case 'CLOSE_DRAWER':
-          case 'TOGGLE_DRAWER':
-            message += `\n\nIs your screen inside a Drawer navigator?`;
-            break;
-        }
-
-        message += `\n\nThis is a development-only warning and won't be shown in production.`;
-
-        console.error(message);
-      },
-      []
-    );
+    React.useEffect(() => {
+      // Navigators mounting later update the state, so this will run again when the root navigator mounts
+      if (!isReadyEmittedRef.current && isReady()) {
+        isReadyEmittedRef.current = true;
+        emitter.emit({ type: 'ready' });
+      }
+    });
 
     return (
       <ScheduleUpdateContext.Provider value={scheduleContext}>
         <NavigationBuilderContext.Provider value={builderContext}>
           <NavigationStateContext.Provider value={context}>
-            <UnhandledActionContext.Provider
-              value={onUnhandledAction ?? defaultOnUnhandledAction}
-            >
-              <EnsureSingleNavigator>{children}</EnsureSingleNavigator>
+            <UnhandledActionContext.Provider value={handleUnhandledAction}>
+              <BatchUpdatesContext.Provider value={batchUpdates}>
+                <TrackActionContext.Provider value={trackAction}>
+                  <NavigationMiddlewareContext.Provider
+                    value={middleware?.length ? applyMiddleware : undefined}
+                  >
+                    <InvalidStateContext.Provider value={onInvalidState}>
+                      <NavigatorTreeContext.Provider value={registerNavigator}>
+                        <RootStateContext.Provider value={rootStateContext}>
+                          <EnsureSingleNavigator>
+                            {children}
+                          </EnsureSingleNavigator>
+                        </RootStateContext.Provider>
+                      </NavigatorTreeContext.Provider>
+                    </InvalidStateContext.Provider>
+                  </NavigationMiddlewareContext.Provider>
+                </TrackActionContext.Provider>
+              </BatchUpdatesContext.Provider>
             </UnhandledActionContext.Provider>
           </NavigationStateContext.Provider>
         </NavigationBuilderContext.Provider>
@@ -0,0 +1,12 @@
+import * as React from 'react';
+import type { NavigationAction } from '@react-navigation/routers';
+
+/**
+ * Context which holds the function to apply multiple actions as a single state change.
+ * The function receives a callback which dispatches the actions, and optionally the batch action.
+ */
+const BatchUpdatesContext = React.createContext<
+  ((callback: () => void, action?: NavigationAction) => void) | undefined
+>(undefined);
+
+export default BatchUpdatesContext;
@@ -0,0 +1,14 @@
+import * as React from 'react';
+import type { EventArg } from './types';
+
+/**
+ * Context which holds the function to propagate an event to the parent screens.
+ * In the capture phase, the event is delivered from the root screen to the parent screen.
+ * In the bubble phase, the event is delivered from the parent screen to the root screen.
+ */
+const EventPropagationContext = React.createContext<
+  | ((event: EventArg<string, any, any>, phase: 'capture' | 'bubble') => void)
+  | undefined
+>(undefined);
+
+export default EventPropagationContext;
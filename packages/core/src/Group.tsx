@@ -0,0 +1,15 @@
+import type { ParamListBase, NavigationState } from '@react-navigation/routers';
+import type { RouteGroupConfig, EventMapBase } from './types';
+
+/**
+ * Empty component used for grouping screen configs.
+ */
+export default function Group<
+  ParamList extends ParamListBase,
+  ScreenOptions extends {},
+  State extends NavigationState,
+  EventMap extends EventMapBase
+>(_: RouteGroupConfig<ParamList, ScreenOptions, State, EventMap>) {
+  /* istanbul ignore next */
+  return null;
+}
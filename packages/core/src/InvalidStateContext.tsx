@@ -0,0 +1,13 @@
+import * as React from 'react';
+import type { NavigationState, PartialState } from '@react-navigation/routers';
+import type { StateValidationReport } from './types';
+
+const InvalidStateContext = React.createContext<
+  | ((
+      report: StateValidationReport,
+      state: NavigationState | PartialState<NavigationState>
+    ) => void)
+  | undefined
+>(undefined);
+
+export default InvalidStateContext;
@@ -4,7 +4,8 @@ import type {
   NavigationState,
   ParamListBase,
 } from '@react-navigation/routers';
-import type { NavigationHelpers } from './types';
+import type { EventArg, NavigationHelpers } from './types';
+import type { GuardCheck } from './useOnAction';
 
 export type ListenerMap = {
   action: ChildActionListener;
@@ -14,6 +15,8 @@ export type ListenerMap = {
 export type KeyedListenerMap = {
   getState: GetStateListener;
   beforeRemove: ChildBeforeRemoveListener;
+  deactivateGuards: ChildDeactivateGuardsListener;
+  descendEvent: ChildDescendEventListener;
 };
 
 export type AddListener = <T extends keyof ListenerMap>(
@@ -44,6 +47,12 @@ export type GetStateListener = () => NavigationState;
 
 export type ChildBeforeRemoveListener = (action: NavigationAction) => boolean;
 
+export type ChildDeactivateGuardsListener = () => GuardCheck[];
+
+export type ChildDescendEventListener = (
+  event: EventArg<string, any, any>
+) => void;
+
 /**
  * Context which holds the required helpers needed to build nested navigators.
  */
@@ -55,7 +64,11 @@ const NavigationBuilderContext = React.createContext<{
   addListener?: AddListener;
   addKeyedListener?: AddKeyedListener;
   onRouteFocus?: (key: string) => void;
-  onDispatchAction: (action: NavigationAction, noop: boolean) => void;
+  onDispatchAction: (
+    action: NavigationAction,
+    noop: boolean,
+    navigatorKey: string
+  ) => void;
   onOptionsChange: (options: object) => void;
 }>({
   onDispatchAction: () => undefined,
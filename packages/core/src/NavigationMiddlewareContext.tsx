@@ -0,0 +1,16 @@
+import * as React from 'react';
+import type { NavigationAction } from '@react-navigation/routers';
+
+/**
+ * Context which holds the function to run an action through the middleware chain of the container.
+ * The `next` callback is called with the final action if none of the middleware drops it.
+ */
+const NavigationMiddlewareContext = React.createContext<
+  | ((
+      action: NavigationAction,
+      next: (action: NavigationAction) => void
+    ) => void)
+  | undefined
+>(undefined);
+
+export default NavigationMiddlewareContext;
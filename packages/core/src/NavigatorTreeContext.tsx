@@ -0,0 +1,15 @@
+import * as React from 'react';
+import type { NavigatorTree } from './types';
+
+export type NavigatorDescription = Omit<NavigatorTree, 'navigators'>;
+
+/**
+ * Context which holds the function to register the description of a navigator by the key of its state.
+ * Passing `undefined` removes the description when the navigator unmounts.
+ */
+const NavigatorTreeContext = React.createContext<
+  | ((key: string, description: NavigatorDescription | undefined) => void)
+  | undefined
+>(undefined);
+
+export default NavigatorTreeContext;
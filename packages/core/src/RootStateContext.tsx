@@ -0,0 +1,16 @@
+import * as React from 'react';
+import type { NavigationState } from '@react-navigation/routers';
+import type { NavigationContainerRef } from './types';
+
+/**
+ * Context which holds the helpers to get the state of the whole navigation tree in the container.
+ * Components can also subscribe to the container's `state` event to get notified when it changes.
+ */
+const RootStateContext = React.createContext<
+  | (Pick<NavigationContainerRef, 'addListener' | 'removeListener'> & {
+      getRootState: () => NavigationState | undefined;
+    })
+  | undefined
+>(undefined);
+
+export default RootStateContext;
@@ -0,0 +1,21 @@
+import * as React from 'react';
+import type { Route } from '@react-navigation/routers';
+
+/**
+ * Context which holds the options of a screen and its ancestor screens.
+ */
+const RouteOptionsContext = React.createContext<
+  | {
+      /**
+       * Routes from the root navigator to the screen along with their options.
+       */
+      routes: { route: Route<string>; options: object }[];
+      /**
+       * Options exposed by the ancestor screens for the navigators nested in the screen.
+       */
+      inheritedOptions: object | undefined;
+    }
+  | undefined
+>(undefined);
+
+export default RouteOptionsContext;
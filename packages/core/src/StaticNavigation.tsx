@@ -0,0 +1,210 @@
+import * as React from 'react';
+import type { NavigatorScreenParams, PathConfig, PathConfigMap } from './types';
+
+type StaticNavigator = {
+  Navigator: React.ComponentType<any>;
+  Screen: React.ComponentType<any>;
+};
+
+type NavigatorProps<Navigator extends StaticNavigator> = Omit<
+  React.ComponentProps<Navigator['Navigator']>,
+  'children'
+>;
+
+type ScreenProps<Navigator extends StaticNavigator> = Omit<
+  React.ComponentProps<Navigator['Screen']>,
+  'name' | 'component' | 'getComponent' | 'children' | 'initialParams'
+>;
+
+type ScreenLinking = string | Omit<PathConfig, 'screens' | 'initialRouteName'>;
+
+export type StaticNavigatorConfig<
+  Navigator extends StaticNavigator = StaticNavigator
+> = NavigatorProps<Navigator> & {
+  /**
+   * Navigator returned from a navigator factory, e.g. `createStackNavigator()`.
+   */
+  navigator: Navigator;
+  /**
+   * Screens in the navigator, by the name of the route.
+   */
+  screens: Record<string, StaticScreenConfig<Navigator>>;
+};
+
+type StaticScreenOptionsConfig<
+  Navigator extends StaticNavigator = StaticNavigator
+> = ScreenProps<Navigator> & {
+  /**
+   * Component or nested navigator config to render for the screen.
+   */
+  screen: React.ComponentType<any> | StaticNavigatorConfig<any>;
+  /**
+   * Initial params object for the route.
+   */
+  initialParams?: object;
+  /**
+   * Path or path config for the screen to use for linking.
+   * Defaults to the screen name in kebab case, e.g. `user-profile` for `UserProfile`.
+   */
+  linking?: ScreenLinking;
+};
+
+export type StaticScreenConfig<
+  Navigator extends StaticNavigator = StaticNavigator
+> =
+  | React.ComponentType<any>
+  | StaticNavigatorConfig<any>
+  | StaticScreenOptionsConfig<Navigator>;
+
+type ParamsForComponent<Component> = Component extends React.ComponentType<
+  infer Props
+>
+  ? Props extends { route: { params: infer Params } }
+    ? Params
+    : undefined
+  : undefined;
+
+type ParamsForItem<Item> = Item extends { navigator: any; screens: any }
+  ? NavigatorScreenParams<StaticParamList<Item>> | undefined
+  : ParamsForComponent<Item>;
+
+type ParamsForScreen<Screen> = Screen extends { screen: infer Item }
+  ? ParamsForItem<Item>
+  : ParamsForItem<Screen>;
+
+type TypedStaticScreenConfig<
+  Navigator extends StaticNavigator,
+  Screen
+> = Screen extends { navigator: any; screens: any }
+  ? TypedStaticNavigatorConfig<Screen>
+  : Screen extends { screen: infer Item }
+  ? ScreenProps<Navigator> & {
+      screen: Item extends { navigator: any; screens: any }
+        ? TypedStaticNavigatorConfig<Item>
+        : React.ComponentType<any>;
+      initialParams?: ParamsForItem<Item> extends undefined
+        ? object
+        : Partial<ParamsForItem<Item>>;
+      linking?: ScreenLinking;
+    }
+  : React.ComponentType<any>;
+
+/**
+ * Static navigator config where the props of each navigator and the options and params of each screen
+ * are typed from the navigator they belong to and the component they render.
+ */
+export type TypedStaticNavigatorConfig<Config> = Config extends {
+  navigator: infer Navigator;
+  screens: infer Screens;
+}
+  ? Navigator extends StaticNavigator
+    ? NavigatorProps<Navigator> & {
+        navigator: Navigator;
+        screens: {
+          [RouteName in keyof Screens]: TypedStaticScreenConfig<
+            Navigator,
+            Screens[RouteName]
+          >;
+        };
+      }
+    : never
+  : never;
+
+/**
+ * Param list inferred from a static navigator config.
+ * The params for a screen are inferred from the `route` prop of its component.
+ */
+export type StaticParamList<Config extends { screens: object }> = {
+  [RouteName in keyof Config['screens']]: ParamsForScreen<
+    Config['screens'][RouteName]
+  >;
+};
+
+const isNavigatorConfig = (item: unknown): item is StaticNavigatorConfig =>
+  item != null &&
+  typeof item === 'object' &&
+  'navigator' in (item as object) &&
+  'screens' in (item as object);
+
+const isScreenOptionsConfig = (
+  item: StaticScreenConfig
+): item is StaticScreenOptionsConfig =>
+  !isNavigatorConfig(item) && 'screen' in item;
+
+const getScreenConfig = (item: StaticScreenConfig): StaticScreenOptionsConfig =>
+  isScreenOptionsConfig(item) ? item : { screen: item };
+
+/**
+ * Convert a screen name to a path in kebab case, e.g. `UserProfile` to `user-profile`.
+ */
+const getDefaultPath = (name: string) =>
+  name
+    .replace(/([A-Z]+)/g, '-$1')
+    .replace(/^-/, '')
+    .toLowerCase();
+
+/**
+ * Create a component which renders a navigator and its screens from a static config.
+ * Nested navigator configs are rendered as the component for the screen.
+ *
+ * @param config Config object containing the navigator and the screens.
+ * @param displayName Name of the component to show in the dev tools.
+ * @returns Component which renders the navigator.
+ */
+export function createComponentForStaticNavigation(
+  config: StaticNavigatorConfig,
+  displayName: string
+): React.ComponentType<{}> {
+  const { navigator, screens, ...rest } = config;
+  const { Navigator, Screen } = navigator;
+
+  // Components for the screens are created once so they don't remount on re-render
+  const items = Object.keys(screens).map((name) => {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { screen, linking, ...props } = getScreenConfig(screens[name]);
+
+    const component = isNavigatorConfig(screen)
+      ? createComponentForStaticNavigation(screen, `${name}Navigator`)
+      : screen;
+
+    return <Screen key={name} name={name} component={component} {...props} />;
+  });
+
+  const NavigatorComponent = () => <Navigator {...rest}>{items}</Navigator>;
+
+  NavigatorComponent.displayName = displayName;
+
+  return NavigatorComponent;
+}
+
+/**
+ * Create a linking config for the screens from a static config.
+ * Screens use their `linking` option if specified, otherwise their name in kebab case.
+ *
+ * @param config Config object containing the navigator and the screens.
+ * @returns Config to use for `linking.config.screens`.
+ */
+export function createPathConfigForStaticNavigation(
+  config: StaticNavigatorConfig
+): PathConfigMap {
+  return Object.keys(config.screens).reduce<PathConfigMap>((acc, name) => {
+    const { screen, linking } = getScreenConfig(config.screens[name]);
+
+    const pathConfig: PathConfig =
+      typeof linking === 'string'
+        ? { path: linking }
+        : { path: getDefaultPath(name), ...linking };
+
+    if (isNavigatorConfig(screen)) {
+      pathConfig.screens = createPathConfigForStaticNavigation(screen);
+
+      if (typeof screen.initialRouteName === 'string') {
+        pathConfig.initialRouteName = screen.initialRouteName;
+      }
+    }
+
+    acc[name] = pathConfig;
+
+    return acc;
+  }, {});
+}
@@ -0,0 +1,12 @@
+import * as React from 'react';
+import type { NavigationAction } from '@react-navigation/routers';
+
+/**
+ * Context which holds the function to track actions dispatched from a navigation object.
+ * The function receives the action and a callback which handles it, and returns whether it was handled.
+ */
+const TrackActionContext = React.createContext<
+  ((action: NavigationAction, handle: () => boolean) => boolean) | undefined
+>(undefined);
+
+export default TrackActionContext;
@@ -1,6 +1,7 @@
 import * as React from 'react';
 import { act, render } from '@testing-library/react-native';
 import {
+  CommonActions,
   DefaultRouterOptions,
   NavigationState,
   Router,
@@ -8,6 +9,8 @@ import {
   TabRouter,
 } from '@react-navigation/routers';
 import BaseNavigationContainer from '../BaseNavigationContainer';
+import createNavigationContainerRef from '../createNavigationContainerRef';
+import getNavigatorTree from '../getNavigatorTree';
 import NavigationStateContext from '../NavigationStateContext';
 import MockRouter, { MockActions } from './__fixtures__/MockRouter';
 import useNavigationBuilder from '../useNavigationBuilder';
@@ -757,3 +760,627 @@ it('invokes the unhandled action listener with the unhandled action', () => {
     type: 'NAVIGATE',
   });
 });
+
+it('applies actions in a batch as a single state change', () => {
+  const ref = React.createRef<NavigationContainerRef>();
+
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+    return (
+      <React.Fragment>
+        {state.routes.map((route) => descriptors[route.key].render())}
+      </React.Fragment>
+    );
+  };
+
+  const onStateChange = jest.fn();
+
+  render(
+    <BaseNavigationContainer ref={ref} onStateChange={onStateChange}>
+      <TestNavigator>
+        <Screen name="foo">{() => null}</Screen>
+        <Screen name="bar">{() => null}</Screen>
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  const onAction = jest.fn();
+
+  ref.current?.addListener('__unsafe_action__', onAction);
+
+  act(() =>
+    ref.current?.batch([
+      CommonActions.navigate('bar'),
+      CommonActions.setParams({ answer: 42 }),
+    ])
+  );
+
+  expect(onStateChange).toBeCalledTimes(1);
+  expect(onStateChange).toBeCalledWith(
+    expect.objectContaining({
+      index: 1,
+      routes: [
+        expect.objectContaining({ name: 'foo' }),
+        expect.objectContaining({ name: 'bar', params: { answer: 42 } }),
+      ],
+    })
+  );
+
+  expect(onAction).toBeCalledTimes(1);
+  expect(onAction.mock.calls[0][0].data).toEqual({
+    action: {
+      type: 'BATCH',
+      payload: {
+        actions: [
+          CommonActions.navigate('bar'),
+          CommonActions.setParams({ answer: 42 }),
+        ],
+      },
+    },
+    noop: false,
+  });
+});
+
+it('applies actions dispatched in a batch callback as a single state change', () => {
+  const ref = React.createRef<NavigationContainerRef>();
+
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+    return (
+      <React.Fragment>
+        {state.routes.map((route) => descriptors[route.key].render())}
+      </React.Fragment>
+    );
+  };
+
+  let navigation: any;
+
+  const TestScreen = (props: any) => {
+    navigation = props.navigation;
+
+    return null;
+  };
+
+  const onStateChange = jest.fn();
+
+  render(
+    <BaseNavigationContainer ref={ref} onStateChange={onStateChange}>
+      <TestNavigator>
+        <Screen name="foo" component={TestScreen} />
+        <Screen name="bar">{() => null}</Screen>
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  const onAction = jest.fn();
+
+  ref.current?.addListener('__unsafe_action__', onAction);
+
+  act(() =>
+    navigation.batch(() => {
+      navigation.setParams({ count: 1 });
+      navigation.navigate('bar', { answer: 42 });
+    })
+  );
+
+  expect(onStateChange).toBeCalledTimes(1);
+  expect(onStateChange).toBeCalledWith(
+    expect.objectContaining({
+      index: 1,
+      routes: [
+        expect.objectContaining({ name: 'foo', params: { count: 1 } }),
+        expect.objectContaining({ name: 'bar', params: { answer: 42 } }),
+      ],
+    })
+  );
+
+  expect(onAction).toBeCalledTimes(1);
+  expect(onAction.mock.calls[0][0].data.action.type).toBe('BATCH');
+  expect(onAction.mock.calls[0][0].data.action.payload.actions).toHaveLength(2);
+});
+
+it('rolls back the batch if any of the actions is not handled', () => {
+  const ref = React.createRef<NavigationContainerRef>();
+
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+    return (
+      <React.Fragment>
+        {state.routes.map((route) => descriptors[route.key].render())}
+      </React.Fragment>
+    );
+  };
+
+  const onStateChange = jest.fn();
+  const onUnhandledAction = jest.fn();
+
+  render(
+    <BaseNavigationContainer
+      ref={ref}
+      onStateChange={onStateChange}
+      onUnhandledAction={onUnhandledAction}
+    >
+      <TestNavigator>
+        <Screen name="foo">{() => null}</Screen>
+        <Screen name="bar">{() => null}</Screen>
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  const state = ref.current?.getRootState();
+
+  act(() =>
+    ref.current?.batch([
+      CommonActions.navigate('bar'),
+      CommonActions.navigate('baz'),
+    ])
+  );
+
+  expect(onStateChange).not.toHaveBeenCalled();
+  expect(ref.current?.getRootState()).toEqual(state);
+  expect(onUnhandledAction).toBeCalledTimes(1);
+  expect(onUnhandledAction).toHaveBeenCalledWith({
+    type: 'BATCH',
+    payload: {
+      actions: [CommonActions.navigate('bar'), CommonActions.navigate('baz')],
+    },
+  });
+
+  act(() => ref.current?.navigate('bar'));
+
+  expect(onStateChange).toBeCalledTimes(1);
+});
+
+it('runs actions through the middleware before handling them', () => {
+  const ref = React.createRef<NavigationContainerRef>();
+
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+    return (
+      <React.Fragment>
+        {state.routes.map((route) => descriptors[route.key].render())}
+      </React.Fragment>
+    );
+  };
+
+  let navigation: any;
+
+  const TestScreen = (props: any) => {
+    navigation = props.navigation;
+
+    return null;
+  };
+
+  const calls: any[] = [];
+  const onStateChange = jest.fn();
+
+  render(
+    <BaseNavigationContainer
+      ref={ref}
+      onStateChange={onStateChange}
+      middleware={[
+        (action, getState, next) => {
+          calls.push({ action, state: getState() });
+          next(action);
+        },
+        (action, _, next) => {
+          if (
+            action.type === 'NAVIGATE' &&
+            (action.payload as { name: string }).name === 'baz'
+          ) {
+            // Redirect to a different screen
+            next(CommonActions.navigate('qux'));
+          } else if (action.type !== 'SET_PARAMS') {
+            next(action);
+          }
+        },
+      ]}
+    >
+      <TestNavigator>
+        <Screen name="foo">{() => null}</Screen>
+        <Screen name="bar">
+          {() => (
+            <TestNavigator>
+              <Screen name="baz">{() => null}</Screen>
+              <Screen name="qux" component={TestScreen} />
+            </TestNavigator>
+          )}
+        </Screen>
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  const state = ref.current?.getRootState();
+
+  act(() => ref.current?.navigate('bar', { screen: 'baz' }));
+
+  expect(calls).toEqual([
+    {
+      action: {
+        type: 'NAVIGATE',
+        payload: { name: 'bar', params: { screen: 'baz' } },
+        target: state?.key,
+      },
+      state,
+    },
+  ]);
+
+  act(() => ref.current?.navigate('baz'));
+
+  const nestedState = ref.current?.getRootState().routes[1]
+    .state as NavigationState;
+
+  expect(calls[1].action).toEqual({
+    type: 'NAVIGATE',
+    payload: { name: 'baz' },
+    target: nestedState?.key,
+  });
+
+  expect(nestedState).toEqual(
+    expect.objectContaining({
+      index: 1,
+      routes: [
+        expect.objectContaining({ name: 'baz' }),
+        expect.objectContaining({ name: 'qux' }),
+      ],
+    })
+  );
+
+  onStateChange.mockClear();
+
+  act(() => navigation.setParams({ answer: 42 }));
+
+  expect(calls[2].action).toEqual({
+    type: 'SET_PARAMS',
+    payload: { params: { answer: 42 } },
+    source: nestedState?.routes[1].key,
+    target: nestedState?.key,
+  });
+
+  expect(onStateChange).not.toHaveBeenCalled();
+});
+
+it('handles actions which are passed to the next middleware later', () => {
+  const ref = React.createRef<NavigationContainerRef>();
+
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+    return (
+      <React.Fragment>
+        {state.routes.map((route) => descriptors[route.key].render())}
+      </React.Fragment>
+    );
+  };
+
+  let resume: (() => void) | undefined;
+
+  const onStateChange = jest.fn();
+
+  render(
+    <BaseNavigationContainer
+      ref={ref}
+      onStateChange={onStateChange}
+      middleware={[
+        (action, _, next) => {
+          resume = () => next(action);
+        },
+      ]}
+    >
+      <TestNavigator>
+        <Screen name="foo">{() => null}</Screen>
+        <Screen name="bar">{() => null}</Screen>
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  act(() => ref.current?.navigate('bar'));
+
+  expect(onStateChange).not.toHaveBeenCalled();
+
+  act(() => resume?.());
+
+  expect(onStateChange).toBeCalledTimes(1);
+  expect(ref.current?.getRootState().index).toBe(1);
+});
+
+it('reports invalid states to onInvalidState', () => {
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+    return (
+      <React.Fragment>
+        {state.routes.map((route) => descriptors[route.key].render())}
+      </React.Fragment>
+    );
+  };
+
+  const onInvalidState = jest.fn();
+
+  const initialState = {
+    index: 1,
+    routes: [
+      { name: 'foo' },
+      {
+        name: 'bar',
+        state: {
+          routes: [{ name: 'baz' }, { name: 'quz' }],
+        },
+      },
+    ],
+  };
+
+  render(
+    <BaseNavigationContainer
+      initialState={initialState}
+      onInvalidState={onInvalidState}
+    >
+      <TestNavigator>
+        <Screen name="foo">{() => null}</Screen>
+        <Screen name="bar">
+          {() => (
+            <TestNavigator>
+              <Screen name="baz">{() => null}</Screen>
+              <Screen name="qux">{() => null}</Screen>
+            </TestNavigator>
+          )}
+        </Screen>
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  expect(onInvalidState).toBeCalledTimes(1);
+  expect(onInvalidState).toBeCalledWith(
+    {
+      valid: false,
+      errors: [
+        {
+          type: 'unknown_route',
+          path: ['routes', 1, 'name'],
+          name: 'quz',
+          routeNames: ['baz', 'qux'],
+        },
+      ],
+    },
+    expect.objectContaining({ routes: [{ name: 'baz' }, { name: 'quz' }] })
+  );
+});
+
+it('gets the tree of rendered navigators', () => {
+  const ref = React.createRef<NavigationContainerRef>();
+
+  const TestNavigator = (props: any): any => {
+    const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  const element = (
+    <BaseNavigationContainer ref={ref}>
+      <TestNavigator initialRouteName="bar">
+        <Screen name="foo">
+          {() => (
+            <TestNavigator>
+              <Screen name="qux">{() => null}</Screen>
+            </TestNavigator>
+          )}
+        </Screen>
+        <Screen name="bar">
+          {() => (
+            <TestNavigator>
+              <Screen name="baz">{() => null}</Screen>
+            </TestNavigator>
+          )}
+        </Screen>
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  render(element);
+
+  expect(getNavigatorTree(ref)).toEqual({
+    type: 'stack',
+    routeNames: ['foo', 'bar'],
+    initialRouteName: 'bar',
+    navigators: {
+      bar: {
+        type: 'stack',
+        routeNames: ['baz'],
+        initialRouteName: undefined,
+        navigators: {},
+      },
+    },
+  });
+
+  act(() => ref.current?.navigate('foo'));
+
+  expect(getNavigatorTree(ref)?.navigators).toEqual({
+    foo: {
+      type: 'stack',
+      routeNames: ['qux'],
+      initialRouteName: undefined,
+      navigators: {},
+    },
+  });
+});
+
+it('returns whether the root navigator has mounted with isReady', () => {
+  const ref = React.createRef<NavigationContainerRef>();
+  const onReady = jest.fn();
+
+  const TestNavigator = (props: any): any => {
+    const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  const Test = ({ mounted }: { mounted: boolean }) => (
+    <BaseNavigationContainer ref={ref}>
+      {mounted ? (
+        <TestNavigator>
+          <Screen name="foo">{() => null}</Screen>
+        </TestNavigator>
+      ) : null}
+    </BaseNavigationContainer>
+  );
+
+  const root = render(<Test mounted={false} />);
+
+  ref.current?.addListener('ready', onReady);
+
+  expect(ref.current?.isReady()).toBe(false);
+  expect(onReady).not.toHaveBeenCalled();
+
+  root.update(<Test mounted />);
+
+  expect(ref.current?.isReady()).toBe(true);
+  expect(onReady).toHaveBeenCalledTimes(1);
+});
+
+it('queues actions on the ref until the root navigator mounts', () => {
+  const ref = createNavigationContainerRef();
+  const onStateChange = jest.fn();
+
+  const TestNavigator = (props: any): any => {
+    const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  expect(ref.isReady()).toBe(false);
+
+  ref.navigate('bar', { answer: 42 });
+  ref.dispatch(CommonActions.navigate('baz'));
+
+  const Test = ({ mounted }: { mounted: boolean }) => (
+    <BaseNavigationContainer ref={ref} onStateChange={onStateChange}>
+      {mounted ? (
+        <TestNavigator>
+          <Screen name="foo">{() => null}</Screen>
+          <Screen name="bar">{() => null}</Screen>
+          <Screen name="baz">{() => null}</Screen>
+        </TestNavigator>
+      ) : null}
+    </BaseNavigationContainer>
+  );
+
+  const root = render(<Test mounted={false} />);
+
+  expect(ref.isReady()).toBe(false);
+
+  root.update(<Test mounted />);
+
+  expect(ref.isReady()).toBe(true);
+  expect(ref.getRootState()?.routes).toEqual([
+    { key: expect.any(String), name: 'foo' },
+    { key: expect.any(String), name: 'bar', params: { answer: 42 } },
+    { key: expect.any(String), name: 'baz' },
+  ]);
+
+  act(() => ref.goBack());
+
+  expect(ref.getRootState()?.routes.map((route) => route.name)).toEqual([
+    'foo',
+    'bar',
+  ]);
+});
+
+it('emits action events for actions dispatched in any navigator', () => {
+  const ref = React.createRef<NavigationContainerRef>();
+  const onUnhandledAction = jest.fn();
+
+  const TestNavigator = (props: any): any => {
+    const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  let nestedNavigation: any;
+
+  const element = (
+    <BaseNavigationContainer ref={ref} onUnhandledAction={onUnhandledAction}>
+      <TestNavigator>
+        <Screen name="foo">
+          {() => (
+            <TestNavigator>
+              <Screen name="qux">
+                {({ navigation }: any) => {
+                  nestedNavigation = navigation;
+
+                  return null;
+                }}
+              </Screen>
+              <Screen name="quux">{() => null}</Screen>
+            </TestNavigator>
+          )}
+        </Screen>
+        <Screen name="bar">{() => null}</Screen>
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  render(element);
+
+  const listener = jest.fn();
+
+  ref.current?.addListener('action', listener);
+
+  const rootState = ref.current?.getRootState();
+  const nestedState = rootState?.routes[0].state as NavigationState;
+
+  act(() => nestedNavigation.navigate('quux'));
+
+  expect(listener).toBeCalledTimes(1);
+  expect(listener.mock.calls[0][0].data).toEqual({
+    action: expect.objectContaining({
+      type: 'NAVIGATE',
+      payload: { name: 'quux' },
+    }),
+    state: rootState,
+    nextState: expect.objectContaining({
+      routes: [
+        expect.objectContaining({
+          name: 'foo',
+          state: expect.objectContaining({
+            index: 1,
+            routes: [
+              expect.objectContaining({ name: 'qux' }),
+              expect.objectContaining({ name: 'quux' }),
+            ],
+          }),
+        }),
+      ],
+    }),
+    handled: true,
+    navigatorKey: nestedState.key,
+  });
+
+  act(() => nestedNavigation.navigate('bar'));
+
+  expect(listener).toBeCalledTimes(2);
+  expect(listener.mock.calls[1][0].data).toEqual(
+    expect.objectContaining({
+      handled: true,
+      navigatorKey: rootState?.key,
+    })
+  );
+  expect(listener.mock.calls[1][0].data.nextState.index).toBe(1);
+
+  act(() => ref.current?.navigate('missing'));
+
+  expect(listener).toBeCalledTimes(3);
+  expect(listener.mock.calls[2][0].data).toEqual(
+    expect.objectContaining({
+      handled: false,
+      navigatorKey: undefined,
+    })
+  );
+  expect(listener.mock.calls[2][0].data.nextState).toEqual(
+    listener.mock.calls[2][0].data.state
+  );
+  expect(onUnhandledAction).toBeCalledTimes(1);
+});
@@ -0,0 +1,102 @@
+import * as React from 'react';
+import { act, render } from '@testing-library/react-native';
+import { StackRouter } from '@react-navigation/routers';
+import BaseNavigationContainer from '../BaseNavigationContainer';
+import createNavigatorFactory from '../createNavigatorFactory';
+import useNavigationBuilder from '../useNavigationBuilder';
+import {
+  createComponentForStaticNavigation,
+  createPathConfigForStaticNavigation,
+  StaticParamList,
+} from '../StaticNavigation';
+import type { NavigationContainerRef } from '../types';
+
+const createTestNavigator = createNavigatorFactory((props: any) => {
+  const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+  return descriptors[state.routes[state.index].key].render();
+});
+
+const Stack = createTestNavigator();
+
+const Profile = ({ route }: { route: { params: { id: string } } }) =>
+  `Profile ${route.params.id}` as any;
+
+const config = {
+  navigator: Stack,
+  initialRouteName: 'Home',
+  screens: {
+    Home: {
+      navigator: Stack,
+      screens: {
+        Feed: () => 'Feed' as any,
+        Latest: () => 'Latest' as any,
+      },
+    },
+    UserProfile: {
+      screen: Profile,
+      options: { title: 'Profile' },
+      linking: 'user/:id',
+    },
+    Settings: {
+      screen: () => 'Settings' as any,
+      initialParams: { tab: 'general' },
+    },
+  },
+};
+
+it('renders the navigators from a static config', () => {
+  const Navigation = createComponentForStaticNavigation(config, 'Navigation');
+  const ref = React.createRef<NavigationContainerRef>();
+
+  const root = render(
+    <BaseNavigationContainer ref={ref}>
+      <Navigation />
+    </BaseNavigationContainer>
+  );
+
+  expect(root.toJSON()).toBe('Feed');
+
+  act(() => ref.current?.navigate('UserProfile', { id: 'jane' }));
+
+  expect(root.toJSON()).toBe('Profile jane');
+  expect(ref.current?.getCurrentOptions()).toEqual({ title: 'Profile' });
+
+  act(() => ref.current?.navigate('Settings'));
+
+  expect(ref.current?.getCurrentRoute()?.params).toEqual({ tab: 'general' });
+
+  act(() => ref.current?.navigate('Home', { screen: 'Latest' }));
+
+  expect(root.toJSON()).toBe('Latest');
+});
+
+it('creates a linking config from a static config', () => {
+  expect(createPathConfigForStaticNavigation(config)).toEqual({
+    Home: {
+      path: 'home',
+      screens: {
+        Feed: { path: 'feed' },
+        Latest: { path: 'latest' },
+      },
+    },
+    UserProfile: { path: 'user/:id' },
+    Settings: { path: 'settings' },
+  });
+});
+
+it('infers the param list from a static config', () => {
+  type ParamList = StaticParamList<typeof config>;
+
+  const params: ParamList = {
+    Home: { screen: 'Feed' },
+    UserProfile: { id: 'jane' },
+    Settings: undefined,
+  };
+
+  // @ts-expect-error: id is required for the profile screen
+  const invalid: ParamList['UserProfile'] = {};
+
+  expect(params).toBeDefined();
+  expect(invalid).toBeDefined();
+});
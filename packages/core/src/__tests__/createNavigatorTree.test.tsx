@@ -0,0 +1,53 @@
+import createNavigatorTree from '../createNavigatorTree';
+
+it('creates a navigator tree from a static config', () => {
+  expect(
+    createNavigatorTree({
+      type: 'stack',
+      initialRouteName: 'Home',
+      screens: {
+        Home: {
+          type: 'tab',
+          screens: {
+            Feed: null,
+            Profile: null,
+          },
+        },
+        Settings: null,
+      },
+    })
+  ).toEqual({
+    type: 'stack',
+    routeNames: ['Home', 'Settings'],
+    initialRouteName: 'Home',
+    navigators: {
+      Home: {
+        type: 'tab',
+        routeNames: ['Feed', 'Profile'],
+        initialRouteName: undefined,
+        navigators: {},
+      },
+    },
+  });
+});
+
+it('throws if the config is invalid', () => {
+  expect(() => createNavigatorTree({ type: 'stack', screens: {} })).toThrow(
+    "Couldn't find any screens for the navigator of type 'stack'."
+  );
+
+  expect(() =>
+    createNavigatorTree({
+      type: 'stack',
+      screens: {
+        Home: {
+          type: 'tab',
+          initialRouteName: 'Feed',
+          screens: { Chat: null },
+        },
+      },
+    })
+  ).toThrow(
+    "The initial route 'Feed' doesn't match any of the screens ('Chat')."
+  );
+});
@@ -0,0 +1,99 @@
+import getActiveRouteChain from '../getActiveRouteChain';
+import getFocusedRoute from '../getFocusedRoute';
+
+it('gets the chain of focused routes from a state', () => {
+  const state = {
+    stale: false as const,
+    type: 'tab',
+    key: 'tab-root',
+    index: 1,
+    routeNames: ['Home', 'Profile'],
+    routes: [
+      { key: 'home', name: 'Home' },
+      {
+        key: 'profile',
+        name: 'Profile',
+        state: {
+          stale: false as const,
+          type: 'stack',
+          key: 'stack-profile',
+          index: 1,
+          routeNames: ['Info', 'Settings'],
+          routes: [
+            { key: 'info', name: 'Info' },
+            { key: 'settings', name: 'Settings', params: { tab: 'privacy' } },
+          ],
+        },
+      },
+    ],
+  };
+
+  expect(getActiveRouteChain(state)).toEqual([
+    {
+      route: state.routes[1],
+      navigatorKey: 'tab-root',
+      navigatorType: 'tab',
+    },
+    {
+      route: state.routes[1].state?.routes[1],
+      navigatorKey: 'stack-profile',
+      navigatorType: 'stack',
+    },
+  ]);
+
+  expect(getFocusedRoute(state)).toEqual({
+    key: 'settings',
+    name: 'Settings',
+    params: { tab: 'privacy' },
+  });
+});
+
+it('gets the chain of focused routes from a partial state', () => {
+  const state = {
+    routes: [
+      {
+        name: 'Home',
+        state: {
+          type: 'tab',
+          routes: [{ name: 'Feed' }, { name: 'Chat' }],
+        },
+      },
+      {
+        name: 'Article',
+        state: {
+          routes: [{ name: 'Comments' }, { name: 'Author' }],
+        },
+      },
+    ],
+  };
+
+  expect(
+    getActiveRouteChain(state).map(({ route, navigatorType }) => [
+      route.name,
+      navigatorType,
+    ])
+  ).toEqual([
+    ['Article', undefined],
+    ['Author', undefined],
+  ]);
+
+  expect(getFocusedRoute(state.routes[0].state)).toEqual({ name: 'Feed' });
+});
+
+it('gets the focused route from a container ref', () => {
+  const ref: any = {
+    isReady: () => true,
+    getRootState: () => ({
+      index: 0,
+      routes: [{ key: 'home', name: 'Home' }],
+    }),
+  };
+
+  expect(getFocusedRoute(ref)).toEqual({ key: 'home', name: 'Home' });
+
+  ref.isReady = () => false;
+
+  expect(getFocusedRoute(ref)).toBe(undefined);
+  expect(getActiveRouteChain(ref)).toEqual([]);
+  expect(getFocusedRoute(undefined)).toBe(undefined);
+});
@@ -1,7 +1,13 @@
 import * as React from 'react';
 import { render, act } from '@testing-library/react-native';
-import type { NavigationState } from '@react-navigation/routers';
+import {
+  NavigationState,
+  StackRouter,
+  TabRouter,
+  extendRouter,
+} from '@react-navigation/routers';
 import Screen from '../Screen';
+import Group from '../Group';
 import BaseNavigationContainer from '../BaseNavigationContainer';
 import useNavigationBuilder from '../useNavigationBuilder';
 import useNavigation from '../useNavigation';
@@ -1256,7 +1262,7 @@ it('throws when Screen is not the direct children', () => {
   );
 
   expect(() => render(element).update(element)).toThrowError(
-    "A navigator can only contain 'Screen' components as its direct children (found 'Bar')"
+    "A navigator can only contain 'Screen', 'Group' or 'React.Fragment' as its direct children (found 'Bar')"
   );
 });
 
@@ -1276,7 +1282,7 @@ it('throws when a React Element is not the direct children', () => {
   );
 
   expect(() => render(element).update(element)).toThrowError(
-    "A navigator can only contain 'Screen' components as its direct children (found 'Hello world')"
+    "A navigator can only contain 'Screen', 'Group' or 'React.Fragment' as its direct children (found 'Hello world')"
   );
 });
 
@@ -1526,6 +1532,79 @@ it('throws descriptive error for invalid children', () => {
   );
 });
 
+it('throws descriptive error for invalid getId prop', () => {
+  const TestNavigator = (props: any) => {
+    useNavigationBuilder(MockRouter, props);
+    return null;
+  };
+
+  const element = (
+    <BaseNavigationContainer>
+      <TestNavigator>
+        <Screen name="foo" component={jest.fn()} getId={'foo' as any} />
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  expect(() => render(element).update(element)).toThrowError(
+    "Got an invalid value for 'getId' prop for the screen 'foo'. It must be a function returning a string or undefined."
+  );
+});
+
+it('moves the screen with matching ID to the top without remounting it', () => {
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+    return (
+      <React.Fragment>
+        {state.routes.map((route) => descriptors[route.key].render())}
+      </React.Fragment>
+    );
+  };
+
+  const onMount = jest.fn();
+
+  const ChatScreen = () => {
+    React.useEffect(() => {
+      onMount();
+    }, []);
+
+    return null;
+  };
+
+  const ref = React.createRef<NavigationContainerRef>();
+
+  render(
+    <BaseNavigationContainer ref={ref}>
+      <TestNavigator>
+        <Screen name="home">{() => null}</Screen>
+        <Screen
+          name="chat"
+          component={ChatScreen}
+          getId={({ params }: any) => params?.id}
+        />
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  act(() => ref.current?.navigate('chat', { id: 'alice' }));
+  act(() => ref.current?.navigate('chat', { id: 'bob' }));
+
+  expect(onMount).toBeCalledTimes(2);
+
+  const [, alice, bob] = ref.current?.getRootState().routes ?? [];
+
+  act(() => ref.current?.navigate('chat', { id: 'alice' }));
+
+  expect(onMount).toBeCalledTimes(2);
+  expect(ref.current?.getRootState()).toEqual(
+    expect.objectContaining({
+      index: 2,
+      routes: [expect.objectContaining({ name: 'home' }), bob, alice],
+    })
+  );
+});
+
 it("doesn't throw if children is null", () => {
   const TestNavigator = (props: any) => {
     useNavigationBuilder(MockRouter, props);
@@ -1735,3 +1814,186 @@ it('does not throw if while getting current options with empty container', () =>
 
   expect(navigation.current?.getCurrentOptions()).toEqual(undefined);
 });
+
+it('removes routes from the stack when the navigationKey of a group changes', () => {
+  const TestNavigator = (props: any): any => {
+    const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  const ref = React.createRef<NavigationContainerRef>();
+
+  const Test = ({ user }: { user: string }) => (
+    <BaseNavigationContainer ref={ref}>
+      <TestNavigator>
+        <Screen name="foo">{() => null}</Screen>
+        <Group navigationKey={user}>
+          <Screen name="bar">{() => null}</Screen>
+          <Screen name="baz">{() => null}</Screen>
+        </Group>
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  const root = render(<Test user="jane" />);
+
+  act(() => ref.current?.navigate('bar'));
+  act(() => ref.current?.navigate('baz'));
+
+  expect(ref.current?.getRootState().routes.map((r) => r.name)).toEqual([
+    'foo',
+    'bar',
+    'baz',
+  ]);
+
+  root.update(<Test user="jane" />);
+
+  expect(ref.current?.getRootState().routes.map((r) => r.name)).toEqual([
+    'foo',
+    'bar',
+    'baz',
+  ]);
+
+  root.update(<Test user="john" />);
+
+  expect(ref.current?.getRootState()).toEqual(
+    expect.objectContaining({
+      index: 0,
+      routes: [expect.objectContaining({ name: 'foo' })],
+    })
+  );
+});
+
+it('removes routes from the stack when the navigationKey of any of the nested groups changes', () => {
+  const TestNavigator = (props: any): any => {
+    const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  const ref = React.createRef<NavigationContainerRef>();
+
+  const Test = ({ user, team }: { user: string; team: string }) => (
+    <BaseNavigationContainer ref={ref}>
+      <TestNavigator>
+        <Screen name="foo">{() => null}</Screen>
+        <Group navigationKey={user}>
+          <Screen name="bar">{() => null}</Screen>
+          <Group navigationKey={team}>
+            <Screen name="baz">{() => null}</Screen>
+          </Group>
+        </Group>
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  const root = render(<Test user="jane" team="red" />);
+
+  act(() => ref.current?.navigate('bar'));
+  act(() => ref.current?.navigate('baz'));
+
+  root.update(<Test user="jane" team="blue" />);
+
+  expect(ref.current?.getRootState().routes.map((r) => r.name)).toEqual([
+    'foo',
+    'bar',
+  ]);
+
+  act(() => ref.current?.navigate('baz'));
+
+  root.update(<Test user="john" team="blue" />);
+
+  expect(ref.current?.getRootState().routes.map((r) => r.name)).toEqual([
+    'foo',
+  ]);
+});
+
+it('resets nested state in tabs when the navigationKey of a screen changes', () => {
+  const TestNavigator = (props: any): any => {
+    const { state, descriptors } = useNavigationBuilder(TabRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  const NestedNavigator = (props: any): any => {
+    const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  const ref = React.createRef<NavigationContainerRef>();
+
+  const Test = ({ user }: { user: string }) => (
+    <BaseNavigationContainer ref={ref}>
+      <TestNavigator>
+        <Screen name="foo" navigationKey={user}>
+          {() => (
+            <NestedNavigator>
+              <Screen name="qux">{() => null}</Screen>
+              <Screen name="quux">{() => null}</Screen>
+            </NestedNavigator>
+          )}
+        </Screen>
+        <Screen name="bar">{() => null}</Screen>
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  const root = render(<Test user="jane" />);
+
+  act(() => ref.current?.navigate('quux'));
+
+  const previousRoute = ref.current?.getRootState().routes[0];
+
+  expect(
+    (previousRoute?.state as NavigationState).routes.map((r) => r.name)
+  ).toEqual(['qux', 'quux']);
+
+  root.update(<Test user="john" />);
+
+  const route = ref.current?.getRootState().routes[0];
+
+  expect(route?.key).not.toBe(previousRoute?.key);
+  expect((route?.state as NavigationState).routes.map((r) => r.name)).toEqual([
+    'qux',
+  ]);
+});
+
+it('navigates in a navigator using a router with an overridden type', () => {
+  const WizardRouter = extendRouter(StackRouter, { type: 'wizard' });
+
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(WizardRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  const navigation = React.createRef<NavigationContainerRef>();
+
+  render(
+    <BaseNavigationContainer ref={navigation}>
+      <TestNavigator>
+        <Screen name="foo">{() => null}</Screen>
+        <Screen name="bar">{() => null}</Screen>
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  expect(navigation.current?.getRootState()).toEqual(
+    expect.objectContaining({ type: 'wizard', index: 0 })
+  );
+
+  act(() => navigation.current?.navigate('bar'));
+
+  expect(navigation.current?.getRootState()).toEqual(
+    expect.objectContaining({
+      type: 'wizard',
+      index: 1,
+      routes: [
+        expect.objectContaining({ name: 'foo' }),
+        expect.objectContaining({ name: 'bar' }),
+      ],
+    })
+  );
+});
@@ -0,0 +1,116 @@
+import * as React from 'react';
+import { render, act } from '@testing-library/react-native';
+import useNavigationBuilder from '../useNavigationBuilder';
+import useAsyncFocusEffect from '../useAsyncFocusEffect';
+import BaseNavigationContainer from '../BaseNavigationContainer';
+import Screen from '../Screen';
+import MockRouter from './__fixtures__/MockRouter';
+
+it('aborts the signal of async focus effect on blur and unmount', () => {
+  const TestNavigator = (props: any): any => {
+    const { state, descriptors } = useNavigationBuilder(MockRouter, props);
+
+    return state.routes.map((route) => descriptors[route.key].render());
+  };
+
+  const signals: AbortSignal[] = [];
+
+  const Test = () => {
+    const onFocus = React.useCallback(async (signal: AbortSignal) => {
+      signals.push(signal);
+    }, []);
+
+    useAsyncFocusEffect(onFocus);
+
+    return null;
+  };
+
+  const navigation = React.createRef<any>();
+
+  const root = render(
+    <BaseNavigationContainer ref={navigation}>
+      <TestNavigator>
+        <Screen name="first" component={Test} />
+        <Screen name="second">{() => null}</Screen>
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  expect(signals.length).toBe(1);
+  expect(signals[0].aborted).toBe(false);
+
+  act(() => navigation.current.navigate('second'));
+
+  expect(signals[0].aborted).toBe(true);
+
+  act(() => navigation.current.navigate('first'));
+
+  expect(signals.length).toBe(2);
+  expect(signals[1].aborted).toBe(false);
+
+  root.unmount();
+
+  expect(signals[1].aborted).toBe(true);
+});
+
+it('reports errors of async focus effect unless the signal was aborted', async () => {
+  const TestNavigator = (props: any): any => {
+    const { state, descriptors } = useNavigationBuilder(MockRouter, props);
+
+    return state.routes.map((route) => descriptors[route.key].render());
+  };
+
+  const spy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+  const rejections: ((error: Error) => void)[] = [];
+
+  const Test = () => {
+    const onFocus = React.useCallback(
+      () =>
+        new Promise<void>((_, reject) => {
+          rejections.push(reject);
+        }),
+      []
+    );
+
+    useAsyncFocusEffect(onFocus);
+
+    return null;
+  };
+
+  const navigation = React.createRef<any>();
+
+  render(
+    <BaseNavigationContainer ref={navigation}>
+      <TestNavigator>
+        <Screen name="first" component={Test} />
+        <Screen name="second">{() => null}</Screen>
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  act(() => navigation.current.navigate('second'));
+
+  const abortError = new Error('Aborted');
+
+  rejections[0](abortError);
+
+  await Promise.resolve();
+  await Promise.resolve();
+
+  expect(spy).not.toHaveBeenCalled();
+
+  act(() => navigation.current.navigate('first'));
+
+  const error = new Error('Failed to fetch');
+
+  rejections[1](error);
+
+  await Promise.resolve();
+  await Promise.resolve();
+
+  expect(spy).toHaveBeenCalledTimes(1);
+  expect(spy).toHaveBeenCalledWith(error);
+
+  spy.mockRestore();
+});
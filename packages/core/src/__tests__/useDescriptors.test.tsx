@@ -1,5 +1,6 @@
 import * as React from 'react';
 import { render, act } from '@testing-library/react-native';
+import { StackRouter, TabRouter } from '@react-navigation/routers';
 import type {
   DefaultRouterOptions,
   NavigationState,
@@ -8,6 +9,8 @@ import type {
 import useNavigationBuilder from '../useNavigationBuilder';
 import BaseNavigationContainer from '../BaseNavigationContainer';
 import Screen from '../Screen';
+import Group from '../Group';
+import useRouteOptions from '../useRouteOptions';
 import MockRouter, {
   MockActions,
   MockRouterKey,
@@ -240,6 +243,136 @@ it('sets options with screenOptions prop as a fuction', () => {
   `);
 });
 
+it('merges options from the navigator, groups and screens in order', () => {
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder<
+      NavigationState,
+      any,
+      { title?: string; presentation?: string; color?: string },
+      any
+    >(MockRouter, props);
+
+    return (
+      <>
+        {state.routes.map((route) => {
+          const { options } = descriptors[route.key];
+
+          return (
+            <main key={route.key}>
+              {`${route.name}: ${options.title}, ${options.presentation}, ${options.color}`}
+            </main>
+          );
+        })}
+      </>
+    );
+  };
+
+  const root = render(
+    <BaseNavigationContainer>
+      <TestNavigator
+        screenOptions={{ title: 'Default', presentation: 'card', color: 'red' }}
+      >
+        <Screen name="foo" component={jest.fn()} />
+        <Group screenOptions={{ presentation: 'modal', color: 'blue' }}>
+          <Screen name="bar" component={jest.fn()} options={{ title: 'Bar' }} />
+          <Group
+            screenOptions={({ route }: any) => ({ title: `${route.name}!` })}
+          >
+            <Screen
+              name="baz"
+              component={jest.fn()}
+              options={{ color: 'green' }}
+            />
+          </Group>
+        </Group>
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  expect(root).toMatchInlineSnapshot(`
+    Array [
+      <main>
+        foo: Default, card, red
+      </main>,
+      <main>
+        bar: Bar, modal, blue
+      </main>,
+      <main>
+        baz: baz!, modal, green
+      </main>,
+    ]
+  `);
+});
+
+it('passes exposed options to nested navigators', () => {
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder<
+      NavigationState,
+      any,
+      { title?: string; color?: string; headerShown?: boolean },
+      any
+    >(MockRouter, props);
+
+    return (
+      <>
+        {state.routes.map((route) => {
+          const { render, options } = descriptors[route.key];
+
+          return (
+            <main key={route.key}>
+              {`${route.name}: ${options.title}, ${options.color}, ${options.headerShown}`}
+              {render()}
+            </main>
+          );
+        })}
+      </>
+    );
+  };
+
+  const TestScreen = () => {
+    const options = useRouteOptions<{ title?: string }>();
+    const ancestorOptions = useRouteOptions<{ title?: string }>('foo');
+
+    return <>{`${options?.title} in ${ancestorOptions?.title}`}</>;
+  };
+
+  const root = render(
+    <BaseNavigationContainer>
+      <TestNavigator>
+        <Screen
+          name="foo"
+          options={{ title: 'Foo', color: 'red', headerShown: false }}
+          exposeOptions={['color', 'headerShown']}
+        >
+          {() => (
+            <TestNavigator screenOptions={{ headerShown: true }}>
+              <Screen name="bar" options={{ title: 'Bar' }}>
+                {() => <TestScreen />}
+              </Screen>
+              <Screen name="baz" options={{ color: 'blue' }}>
+                {() => null}
+              </Screen>
+            </TestNavigator>
+          )}
+        </Screen>
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  expect(root).toMatchInlineSnapshot(`
+    <main>
+      foo: Foo, red, false
+      <main>
+        bar: Bar, red, true
+        Bar in Foo
+      </main>
+      <main>
+        baz: undefined, blue, true
+      </main>
+    </main>
+  `);
+});
+
 it('sets initial options with setOptions', () => {
   const TestNavigator = (props: any) => {
     const { state, descriptors } = useNavigationBuilder<
@@ -610,3 +743,85 @@ it('returns true for canGoBack when parent router handles GO_BACK', () => {
 
   expect(result).toBe(false);
 });
+
+it("doesn't re-render screens using the route options when the parent state changes", () => {
+  const TestNavigator = (props: any): any => {
+    const { state, descriptors } = useNavigationBuilder(TabRouter, props);
+
+    return state.routes.map((route) => descriptors[route.key].render());
+  };
+
+  let renders = 0;
+
+  const Test = () => {
+    useRouteOptions();
+
+    renders++;
+
+    return null;
+  };
+
+  const navigation = React.createRef<any>();
+
+  render(
+    <BaseNavigationContainer ref={navigation}>
+      <TestNavigator>
+        <Screen name="first">{() => null}</Screen>
+        <Screen name="second">{() => null}</Screen>
+        <Screen name="third" options={{ title: 'Third' }} component={Test} />
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  renders = 0;
+
+  act(() => navigation.current.navigate('second'));
+  act(() => navigation.current.navigate('first'));
+  act(() => navigation.current.navigate('second'));
+
+  expect(renders).toBe(0);
+});
+
+it("doesn't re-render nested navigators in unfocused screens when the parent state changes", () => {
+  const TabNavigator = (props: any): any => {
+    const { state, descriptors } = useNavigationBuilder(TabRouter, props);
+
+    return state.routes.map((route) => descriptors[route.key].render());
+  };
+
+  let renders = 0;
+
+  const StackNavigator = (props: any): any => {
+    const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+    renders++;
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  const navigation = React.createRef<any>();
+
+  render(
+    <BaseNavigationContainer ref={navigation}>
+      <TabNavigator>
+        <Screen name="first">{() => null}</Screen>
+        <Screen name="second">{() => null}</Screen>
+        <Screen name="third">
+          {() => (
+            <StackNavigator>
+              <Screen name="list">{() => null}</Screen>
+            </StackNavigator>
+          )}
+        </Screen>
+      </TabNavigator>
+    </BaseNavigationContainer>
+  );
+
+  renders = 0;
+
+  act(() => navigation.current.navigate('second'));
+  act(() => navigation.current.navigate('first'));
+  act(() => navigation.current.navigate('second'));
+
+  expect(renders).toBe(0);
+});
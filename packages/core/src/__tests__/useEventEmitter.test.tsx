@@ -1,9 +1,11 @@
 import * as React from 'react';
 import { render, act } from '@testing-library/react-native';
+import { StackActions, StackRouter } from '@react-navigation/routers';
 import type { Router, NavigationState } from '@react-navigation/routers';
 import useNavigationBuilder from '../useNavigationBuilder';
 import BaseNavigationContainer from '../BaseNavigationContainer';
 import Screen from '../Screen';
+import Group from '../Group';
 import MockRouter from './__fixtures__/MockRouter';
 
 it('fires focus and blur events in root navigator', () => {
@@ -634,6 +636,66 @@ it('fires custom events added with listeners prop', () => {
   expect(thirdCallback).toBeCalledTimes(1);
 });
 
+it('fires listeners added with screenListeners prop of groups', () => {
+  const TestNavigator = React.forwardRef((props: any, ref: any): any => {
+    const { state, navigation } = useNavigationBuilder(MockRouter, props);
+
+    React.useImperativeHandle(ref, () => ({ navigation, state }), [
+      navigation,
+      state,
+    ]);
+
+    return null;
+  });
+
+  const calls: string[] = [];
+
+  const ref = React.createRef<any>();
+
+  const element = (
+    <BaseNavigationContainer>
+      <TestNavigator ref={ref}>
+        <Screen name="first" component={jest.fn()} />
+        <Group
+          screenListeners={{ someSuperCoolEvent: () => calls.push('outer') }}
+        >
+          <Group
+            screenListeners={({ route }: any) => ({
+              someSuperCoolEvent: () => calls.push(`inner: ${route.name}`),
+            })}
+          >
+            <Screen
+              name="second"
+              listeners={{ someSuperCoolEvent: () => calls.push('screen') }}
+              component={jest.fn()}
+            />
+          </Group>
+        </Group>
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  render(element);
+
+  act(() => {
+    ref.current.navigation.emit({
+      type: 'someSuperCoolEvent',
+      target: ref.current.state.routes[0].key,
+    });
+  });
+
+  expect(calls).toEqual([]);
+
+  act(() => {
+    ref.current.navigation.emit({
+      type: 'someSuperCoolEvent',
+      target: ref.current.state.routes[1].key,
+    });
+  });
+
+  expect(calls).toEqual(['outer', 'inner: second', 'screen']);
+});
+
 it("doesn't call same listener multiple times with listeners", () => {
   const eventName = 'someSuperCoolEvent';
 
@@ -828,3 +890,297 @@ it('has option to prevent default', () => {
     });
   });
 });
+
+it('propagates events to parent screens with bubbles and capture', () => {
+  const TestNavigator = React.forwardRef((props: any, ref: any): any => {
+    const { state, navigation, descriptors } = useNavigationBuilder(
+      MockRouter,
+      props
+    );
+
+    React.useImperativeHandle(ref, () => ({ navigation, state }), [
+      navigation,
+      state,
+    ]);
+
+    return state.routes.map((route) => descriptors[route.key].render());
+  });
+
+  const calls: string[] = [];
+
+  const ref = React.createRef<any>();
+
+  const element = (
+    <BaseNavigationContainer>
+      <TestNavigator>
+        <Screen
+          name="foo"
+          listeners={{
+            someSuperCoolEvent: (e: any) => calls.push(`foo: ${e.target}`),
+          }}
+        >
+          {() => (
+            <TestNavigator ref={ref}>
+              <Screen
+                name="bar"
+                listeners={{
+                  someSuperCoolEvent: (e: any) => {
+                    calls.push(`bar: ${e.target}`);
+
+                    if (e.data?.stop === 'bar') {
+                      e.stopPropagation();
+                    }
+                  },
+                }}
+              >
+                {() => null}
+              </Screen>
+            </TestNavigator>
+          )}
+        </Screen>
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  render(element);
+
+  const unsubscribe = ref.current.navigation.addListener(
+    'someSuperCoolEvent',
+    (e: any) => {
+      calls.push(`navigator: ${e.target}`);
+
+      if (e.data?.stop === 'navigator') {
+        e.stopPropagation();
+      }
+    }
+  );
+
+  const target = ref.current.state.routes[0].key;
+
+  act(() => {
+    ref.current.navigation.emit({ type: 'someSuperCoolEvent', target });
+  });
+
+  expect(calls).toEqual([`bar: ${target}`]);
+
+  calls.length = 0;
+
+  act(() => {
+    ref.current.navigation.emit({
+      type: 'someSuperCoolEvent',
+      target,
+      bubbles: true,
+    });
+  });
+
+  expect(calls).toEqual([
+    `bar: ${target}`,
+    `foo: ${target}`,
+    `navigator: ${target}`,
+  ]);
+
+  calls.length = 0;
+
+  act(() => {
+    ref.current.navigation.emit({
+      type: 'someSuperCoolEvent',
+      target,
+      bubbles: true,
+      data: { stop: 'bar' },
+    });
+  });
+
+  expect(calls).toEqual([`bar: ${target}`]);
+
+  calls.length = 0;
+
+  act(() => {
+    ref.current.navigation.emit({
+      type: 'someSuperCoolEvent',
+      target,
+      capture: true,
+    });
+  });
+
+  expect(calls).toEqual([
+    `foo: ${target}`,
+    `navigator: ${target}`,
+    `bar: ${target}`,
+  ]);
+
+  calls.length = 0;
+
+  act(() => {
+    ref.current.navigation.emit({
+      type: 'someSuperCoolEvent',
+      target,
+      capture: true,
+      data: { stop: 'navigator' },
+    });
+  });
+
+  expect(calls).toEqual([`foo: ${target}`, `navigator: ${target}`]);
+
+  unsubscribe();
+});
+
+it('delivers events to focused screens of nested navigators with descend', () => {
+  const TestNavigator = React.forwardRef((props: any, ref: any): any => {
+    const { state, navigation, descriptors } = useNavigationBuilder(
+      MockRouter,
+      props
+    );
+
+    React.useImperativeHandle(ref, () => ({ navigation, state }), [
+      navigation,
+      state,
+    ]);
+
+    return descriptors[state.routes[state.index].key].render();
+  });
+
+  const calls: string[] = [];
+
+  const createListeners = (name: string) => ({
+    someSuperCoolEvent: (e: any) => {
+      calls.push(`${name}: ${e.target}`);
+
+      if (e.data?.stop === name) {
+        e.stopPropagation();
+      }
+    },
+  });
+
+  const ref = React.createRef<any>();
+
+  render(
+    <BaseNavigationContainer>
+      <TestNavigator ref={ref}>
+        <Screen name="foo" listeners={createListeners('foo')}>
+          {() => (
+            <TestNavigator>
+              <Screen name="bar" listeners={createListeners('bar')}>
+                {() => (
+                  <TestNavigator>
+                    <Screen name="baz" listeners={createListeners('baz')}>
+                      {() => null}
+                    </Screen>
+                    <Screen name="qux" listeners={createListeners('qux')}>
+                      {() => null}
+                    </Screen>
+                  </TestNavigator>
+                )}
+              </Screen>
+            </TestNavigator>
+          )}
+        </Screen>
+        <Screen name="quux" listeners={createListeners('quux')}>
+          {() => null}
+        </Screen>
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  const target = ref.current.state.routes[0].key;
+
+  act(() => {
+    ref.current.navigation.emit({
+      type: 'someSuperCoolEvent',
+      target,
+      descend: true,
+    });
+  });
+
+  // The event object is the same, so the target is still the route in the outer navigator
+  expect(calls).toEqual([`foo: ${target}`, `bar: ${target}`, `baz: ${target}`]);
+
+  calls.length = 0;
+
+  act(() => {
+    ref.current.navigation.emit({
+      type: 'someSuperCoolEvent',
+      target,
+      descend: true,
+      data: { stop: 'bar' },
+    });
+  });
+
+  expect(calls).toEqual([`foo: ${target}`, `bar: ${target}`]);
+});
+
+it('resets nested stacks at any depth on descending events', () => {
+  const TabNavigator = React.forwardRef((props: any, ref: any): any => {
+    const { state, navigation, descriptors } = useNavigationBuilder(
+      MockRouter,
+      props
+    );
+
+    React.useImperativeHandle(ref, () => ({ navigation, state }), [
+      navigation,
+      state,
+    ]);
+
+    return descriptors[state.routes[state.index].key].render();
+  });
+
+  const StackNavigator = (props: any): any => {
+    const { state, navigation, descriptors } = useNavigationBuilder(
+      StackRouter,
+      props
+    );
+
+    React.useEffect(
+      () =>
+        navigation.addListener?.('tabPress', () => {
+          if (state.index > 0) {
+            navigation.dispatch({
+              ...StackActions.popToTop(),
+              target: state.key,
+            });
+          }
+        }),
+      [navigation, state.index, state.key]
+    );
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  const ref = React.createRef<any>();
+  const container = React.createRef<any>();
+
+  render(
+    <BaseNavigationContainer ref={container}>
+      <TabNavigator ref={ref}>
+        <Screen name="home">
+          {() => (
+            <StackNavigator>
+              <Screen name="feed">
+                {() => (
+                  <StackNavigator>
+                    <Screen name="list">{() => null}</Screen>
+                    <Screen name="details">{() => null}</Screen>
+                  </StackNavigator>
+                )}
+              </Screen>
+            </StackNavigator>
+          )}
+        </Screen>
+      </TabNavigator>
+    </BaseNavigationContainer>
+  );
+
+  act(() => container.current.navigate('details'));
+
+  expect(container.current.getCurrentRoute().name).toBe('details');
+
+  act(() => {
+    ref.current.navigation.emit({
+      type: 'tabPress',
+      target: ref.current.state.routes[0].key,
+      canPreventDefault: true,
+      descend: true,
+    });
+  });
+
+  expect(container.current.getCurrentRoute().name).toBe('list');
+});
@@ -0,0 +1,73 @@
+import * as React from 'react';
+import { render, act } from '@testing-library/react-native';
+import { CommonActions } from '@react-navigation/routers';
+import useNavigationBuilder from '../useNavigationBuilder';
+import useFocusedRouteChain from '../useFocusedRouteChain';
+import BaseNavigationContainer from '../BaseNavigationContainer';
+import Screen from '../Screen';
+import MockRouter from './__fixtures__/MockRouter';
+
+it('updates only when the chain of focused routes changes', () => {
+  const TestNavigator = (props: any): any => {
+    const { state, descriptors } = useNavigationBuilder(MockRouter, props);
+
+    return state.routes.map((route) => descriptors[route.key].render());
+  };
+
+  const chains: any[] = [];
+
+  const Test = () => {
+    const chain = useFocusedRouteChain();
+
+    chains.push(chain);
+
+    return null;
+  };
+
+  const navigation = React.createRef<any>();
+
+  render(
+    <BaseNavigationContainer ref={navigation}>
+      <TestNavigator>
+        <Screen name="first">
+          {() => (
+            <TestNavigator>
+              <Screen name="inner" component={Test} />
+              <Screen name="other">{() => null}</Screen>
+            </TestNavigator>
+          )}
+        </Screen>
+        <Screen name="second">{() => null}</Screen>
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  const getNames = () =>
+    chains[chains.length - 1].map(({ route }: any) => route.name);
+
+  expect(getNames()).toEqual(['first', 'inner']);
+
+  const chain = chains[chains.length - 1];
+
+  act(() =>
+    navigation.current.dispatch({
+      ...CommonActions.setParams({ answer: 42 }),
+      source: 'second',
+    })
+  );
+
+  // The params of an unfocused route changed, so the chain is the same
+  expect(navigation.current.getRootState().routes[1].params).toEqual({
+    answer: 42,
+  });
+  expect(chains[chains.length - 1]).toBe(chain);
+
+  act(() => navigation.current.setParams({ answer: 7 }));
+
+  expect(chains[chains.length - 1]).not.toBe(chain);
+  expect(chains[chains.length - 1][1].route.params).toEqual({ answer: 7 });
+
+  act(() => navigation.current.navigate('second'));
+
+  expect(getNames()).toEqual(['second']);
+});
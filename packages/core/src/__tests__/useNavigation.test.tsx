@@ -5,6 +5,7 @@ import useNavigation from '../useNavigation';
 import BaseNavigationContainer from '../BaseNavigationContainer';
 import Screen from '../Screen';
 import MockRouter from './__fixtures__/MockRouter';
+import type { NavigationProp, NavigatorScreenParams } from '../types';
 
 it('gets navigation prop from context', () => {
   expect.assertions(1);
@@ -120,3 +121,29 @@ it('throws if called outside a navigation context', () => {
 
   render(<Test />);
 });
+
+it('type-checks params for nested navigators', () => {
+  type FeedParamList = {
+    Latest: undefined;
+    Article: { id: string };
+  };
+
+  type RootParamList = {
+    Home: NavigatorScreenParams<FeedParamList>;
+    Settings: undefined;
+  };
+
+  // This is only checked by TypeScript and never called
+  const check = (navigation: NavigationProp<RootParamList>) => {
+    navigation.navigate('Home', { screen: 'Latest' });
+    navigation.navigate('Home', { screen: 'Article', params: { id: '42' } });
+
+    // @ts-expect-error: params are required for the nested screen
+    navigation.navigate('Home', { screen: 'Article' });
+
+    // @ts-expect-error: the nested screen doesn't exist
+    navigation.navigate('Home', { screen: 'Profile' });
+  };
+
+  expect(check).toBeDefined();
+});
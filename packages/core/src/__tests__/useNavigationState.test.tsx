@@ -154,3 +154,151 @@ it('gets the correct value if selector changes', () => {
   expect(callback).toBeCalledTimes(2);
   expect(callback.mock.calls[1][0]).toBe('first');
 });
+
+it('keeps the previous value if the selected value is equal', () => {
+  const TestNavigator = (props: any): any => {
+    const { state, descriptors } = useNavigationBuilder(MockRouter, props);
+
+    return state.routes.map((route) => descriptors[route.key].render());
+  };
+
+  const names: string[][] = [];
+  const indexes: number[] = [];
+
+  const Test = () => {
+    const routeNames = useNavigationState((state) =>
+      state.routes.map((route) => route.name)
+    );
+
+    const index = useNavigationState((state) => state.index, {
+      isEqual: (a, b) => Math.min(a, 1) === Math.min(b, 1),
+    });
+
+    names.push(routeNames);
+    indexes.push(index);
+
+    return null;
+  };
+
+  const navigation = React.createRef<any>();
+
+  render(
+    <BaseNavigationContainer ref={navigation}>
+      <TestNavigator>
+        <Screen name="first" component={Test} />
+        <Screen name="second">{() => null}</Screen>
+        <Screen name="third">{() => null}</Screen>
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  act(() => navigation.current.navigate('second'));
+  act(() => navigation.current.navigate('third'));
+
+  expect(indexes[indexes.length - 1]).toBe(1);
+  expect(names.every((value) => value === names[0])).toBe(true);
+  expect(names[0]).toEqual(['first', 'second', 'third']);
+});
+
+it('gets the state of the navigator in the scope', () => {
+  const TestNavigator = (props: any): any => {
+    const { state, descriptors } = useNavigationBuilder(MockRouter, props);
+
+    return state.routes.map((route) => descriptors[route.key].render());
+  };
+
+  const callback = jest.fn();
+
+  const Test = () => {
+    const getFocusedName = (state: NavigationState) =>
+      state.routes[state.index].name;
+
+    callback({
+      closest: useNavigationState(getFocusedName),
+      parent: useNavigationState(getFocusedName, { scope: 'parent' }),
+      outer: useNavigationState(getFocusedName, { scope: 'outer' }),
+      root: useNavigationState(
+        (state) => JSON.stringify(state.routes.map((route) => route.state)),
+        { scope: 'root' }
+      ),
+    });
+
+    return null;
+  };
+
+  const navigation = React.createRef<any>();
+
+  render(
+    <BaseNavigationContainer ref={navigation}>
+      <TestNavigator id="outer">
+        <Screen name="first">
+          {() => (
+            <TestNavigator id="inner">
+              <Screen name="nested">
+                {() => (
+                  <TestNavigator>
+                    <Screen name="deep" component={Test} />
+                  </TestNavigator>
+                )}
+              </Screen>
+              <Screen name="other">{() => null}</Screen>
+            </TestNavigator>
+          )}
+        </Screen>
+        <Screen name="second">{() => null}</Screen>
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  expect(callback).toHaveBeenLastCalledWith({
+    closest: 'deep',
+    parent: 'nested',
+    outer: 'first',
+    root: expect.stringContaining('"name":"deep"'),
+  });
+
+  act(() => navigation.current.navigate('other'));
+
+  expect(callback).toHaveBeenLastCalledWith({
+    closest: 'deep',
+    parent: 'other',
+    outer: 'first',
+    root: expect.stringContaining('"name":"other"'),
+  });
+
+  act(() => navigation.current.navigate('second'));
+
+  expect(callback).toHaveBeenLastCalledWith(
+    expect.objectContaining({ outer: 'second' })
+  );
+});
+
+it('throws if there is no navigator with the ID', () => {
+  const TestNavigator = (props: any): any => {
+    const { state, descriptors } = useNavigationBuilder(MockRouter, props);
+
+    return state.routes.map((route) => descriptors[route.key].render());
+  };
+
+  const Test = () => {
+    useNavigationState((state) => state.index, { scope: 'missing' });
+
+    return null;
+  };
+
+  const spy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+  expect(() =>
+    render(
+      <BaseNavigationContainer>
+        <TestNavigator>
+          <Screen name="first" component={Test} />
+        </TestNavigator>
+      </BaseNavigationContainer>
+    )
+  ).toThrowError(
+    "Couldn't find a navigator with the ID 'missing'. Is your component inside it?"
+  );
+
+  spy.mockRestore();
+});
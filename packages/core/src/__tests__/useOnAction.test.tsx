@@ -5,6 +5,9 @@ import {
   DefaultRouterOptions,
   NavigationState,
   StackRouter,
+  StackActions,
+  TabRouter,
+  CommonActions,
 } from '@react-navigation/routers';
 import useNavigationBuilder from '../useNavigationBuilder';
 import BaseNavigationContainer from '../BaseNavigationContainer';
@@ -1178,3 +1181,430 @@ it("prevents removing by multiple screens with 'beforeRemove' event", () => {
     type: 'stack',
   });
 });
+
+it("emits 'beforeRemove' for every screen removed by 'popTo'", () => {
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+    return (
+      <React.Fragment>
+        {state.routes.map((route) => descriptors[route.key].render())}
+      </React.Fragment>
+    );
+  };
+
+  const onBeforeRemove = jest.fn();
+
+  let shouldPrevent = true;
+
+  const TestScreen = (props: any) => {
+    React.useEffect(
+      () =>
+        props.navigation.addListener('beforeRemove', (e: any) => {
+          onBeforeRemove(props.route.name);
+
+          if (shouldPrevent && props.route.name === 'bar') {
+            e.preventDefault();
+          }
+        }),
+      [props.navigation, props.route.name]
+    );
+
+    return null;
+  };
+
+  const onStateChange = jest.fn();
+
+  const ref = React.createRef<NavigationContainerRef>();
+
+  const element = (
+    <BaseNavigationContainer ref={ref} onStateChange={onStateChange}>
+      <TestNavigator>
+        <Screen name="foo">{() => null}</Screen>
+        <Screen name="bar" component={TestScreen} />
+        <Screen name="baz" component={TestScreen} />
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  render(element);
+
+  act(() => {
+    ref.current?.navigate('bar');
+    ref.current?.navigate('baz');
+  });
+
+  expect(onStateChange).toBeCalledTimes(1);
+
+  act(() => ref.current?.dispatch(StackActions.popTo('foo')));
+
+  expect(onStateChange).toBeCalledTimes(1);
+  expect(onBeforeRemove).toBeCalledTimes(2);
+  expect(onBeforeRemove).toHaveBeenNthCalledWith(1, 'baz');
+  expect(onBeforeRemove).toHaveBeenNthCalledWith(2, 'bar');
+
+  shouldPrevent = false;
+
+  act(() => ref.current?.dispatch(StackActions.popTo('foo')));
+
+  expect(onStateChange).toBeCalledTimes(2);
+  expect(onStateChange).toBeCalledWith({
+    index: 0,
+    key: 'stack-2',
+    routeNames: ['foo', 'bar', 'baz'],
+    routes: [{ key: 'foo-3', name: 'foo' }],
+    stale: false,
+    type: 'stack',
+  });
+});
+
+it("denies or redirects navigation with 'canActivate' guard", () => {
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+    return (
+      <React.Fragment>
+        {state.routes.map((route) => descriptors[route.key].render())}
+      </React.Fragment>
+    );
+  };
+
+  const onNavigationDenied = jest.fn();
+
+  const TestScreen = (props: any) => {
+    React.useEffect(
+      () =>
+        props.navigation.addListener('navigationDenied', onNavigationDenied),
+      [props.navigation]
+    );
+
+    return null;
+  };
+
+  let allowed: boolean | undefined = false;
+
+  const canActivate = jest.fn(() =>
+    allowed === undefined ? CommonActions.navigate('baz') : allowed
+  );
+
+  const onStateChange = jest.fn();
+
+  const ref = React.createRef<NavigationContainerRef>();
+
+  render(
+    <BaseNavigationContainer ref={ref} onStateChange={onStateChange}>
+      <TestNavigator>
+        <Screen name="foo" component={TestScreen} />
+        <Screen name="bar" canActivate={canActivate}>
+          {() => null}
+        </Screen>
+        <Screen name="baz">{() => null}</Screen>
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  act(() => ref.current?.navigate('bar', { answer: 42 }));
+
+  expect(onStateChange).not.toHaveBeenCalled();
+  expect(canActivate).toHaveBeenCalledWith(
+    { key: 'bar-4', name: 'bar', params: { answer: 42 } },
+    expect.objectContaining({ index: 0, key: 'stack-2' })
+  );
+  expect(onNavigationDenied).toBeCalledTimes(1);
+  expect(onNavigationDenied.mock.calls[0][0].data).toEqual({
+    action: CommonActions.navigate('bar', { answer: 42 }),
+    route: { key: 'bar-4', name: 'bar', params: { answer: 42 } },
+    guard: 'canActivate',
+  });
+
+  allowed = undefined;
+
+  act(() => ref.current?.navigate('bar'));
+
+  expect(onStateChange).toBeCalledTimes(1);
+  expect(onStateChange).toBeCalledWith(
+    expect.objectContaining({
+      index: 1,
+      routes: [
+        { key: 'foo-3', name: 'foo' },
+        { key: 'baz-6', name: 'baz' },
+      ],
+    })
+  );
+
+  allowed = true;
+
+  act(() => ref.current?.navigate('bar'));
+
+  expect(onStateChange).toBeCalledTimes(2);
+  expect(ref.current?.getCurrentRoute()?.name).toBe('bar');
+  expect(onNavigationDenied).toBeCalledTimes(1);
+});
+
+it("waits for async 'canDeactivate' guard before changing focus", async () => {
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(TabRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  let resolve: ((result: boolean) => void) | undefined;
+
+  const canDeactivate = jest.fn(
+    () =>
+      new Promise<boolean>((r) => {
+        resolve = r;
+      })
+  );
+
+  const onStateChange = jest.fn();
+
+  const ref = React.createRef<NavigationContainerRef>();
+
+  render(
+    <BaseNavigationContainer ref={ref} onStateChange={onStateChange}>
+      <TestNavigator>
+        <Screen name="foo" canDeactivate={canDeactivate}>
+          {() => null}
+        </Screen>
+        <Screen name="bar">{() => null}</Screen>
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  act(() => ref.current?.navigate('bar'));
+
+  expect(canDeactivate).toBeCalledTimes(1);
+  expect(canDeactivate).toHaveBeenCalledWith(
+    expect.objectContaining({ name: 'foo' }),
+    expect.objectContaining({ index: 0, type: 'tab' })
+  );
+  expect(onStateChange).not.toHaveBeenCalled();
+
+  await act(async () => resolve?.(false));
+
+  expect(onStateChange).not.toHaveBeenCalled();
+
+  act(() => ref.current?.navigate('bar'));
+
+  await act(async () => resolve?.(true));
+
+  expect(canDeactivate).toBeCalledTimes(2);
+  expect(onStateChange).toBeCalledTimes(1);
+  expect(ref.current?.getCurrentRoute()?.name).toBe('bar');
+});
+
+it("calls 'canDeactivate' guard of screens nested in the route losing focus", () => {
+  const TabNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(TabRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  const StackNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  };
+
+  const canDeactivate = jest.fn(() => false);
+
+  const onStateChange = jest.fn();
+
+  const ref = React.createRef<NavigationContainerRef>();
+
+  render(
+    <BaseNavigationContainer ref={ref} onStateChange={onStateChange}>
+      <TabNavigator>
+        <Screen name="a">
+          {() => (
+            <StackNavigator>
+              <Screen name="x" canDeactivate={canDeactivate}>
+                {() => null}
+              </Screen>
+            </StackNavigator>
+          )}
+        </Screen>
+        <Screen name="b">{() => null}</Screen>
+      </TabNavigator>
+    </BaseNavigationContainer>
+  );
+
+  act(() => ref.current?.navigate('b'));
+
+  expect(canDeactivate).toBeCalledTimes(1);
+  expect(canDeactivate).toHaveBeenCalledWith(
+    expect.objectContaining({ name: 'x' }),
+    expect.objectContaining({ type: 'stack' })
+  );
+  expect(onStateChange).not.toHaveBeenCalled();
+  expect(ref.current?.getCurrentRoute()?.name).toBe('x');
+});
+
+it('denies navigation when an async guard fails', async () => {
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+    return (
+      <React.Fragment>
+        {state.routes.map((route) => descriptors[route.key].render())}
+      </React.Fragment>
+    );
+  };
+
+  const onNavigationDenied = jest.fn();
+
+  const TestScreen = (props: any) => {
+    React.useEffect(
+      () =>
+        props.navigation.addListener('navigationDenied', onNavigationDenied),
+      [props.navigation]
+    );
+
+    return null;
+  };
+
+  const canActivate = jest.fn(() =>
+    Promise.reject(new Error('Network request failed'))
+  );
+
+  const onStateChange = jest.fn();
+
+  const ref = React.createRef<NavigationContainerRef>();
+
+  render(
+    <BaseNavigationContainer ref={ref} onStateChange={onStateChange}>
+      <TestNavigator>
+        <Screen name="foo" component={TestScreen} />
+        <Screen name="bar" canActivate={canActivate}>
+          {() => null}
+        </Screen>
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  await act(async () => ref.current?.navigate('bar'));
+
+  expect(canActivate).toBeCalledTimes(1);
+  expect(onStateChange).not.toHaveBeenCalled();
+  expect(onNavigationDenied).toBeCalledTimes(1);
+  expect(onNavigationDenied.mock.calls[0][0].data).toEqual({
+    action: CommonActions.navigate('bar'),
+    route: expect.objectContaining({ name: 'bar' }),
+    guard: 'canActivate',
+  });
+});
+
+it('denies navigation when a guard throws', () => {
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+    return (
+      <React.Fragment>
+        {state.routes.map((route) => descriptors[route.key].render())}
+      </React.Fragment>
+    );
+  };
+
+  const onNavigationDenied = jest.fn();
+
+  const TestScreen = (props: any) => {
+    React.useEffect(
+      () =>
+        props.navigation.addListener('navigationDenied', onNavigationDenied),
+      [props.navigation]
+    );
+
+    return null;
+  };
+
+  const canDeactivate = jest.fn(() => {
+    throw new Error('boom');
+  });
+
+  const onStateChange = jest.fn();
+
+  const ref = React.createRef<NavigationContainerRef>();
+
+  render(
+    <BaseNavigationContainer ref={ref} onStateChange={onStateChange}>
+      <TestNavigator>
+        <Screen
+          name="foo"
+          component={TestScreen}
+          canDeactivate={canDeactivate}
+        />
+        <Screen name="bar">{() => null}</Screen>
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  act(() => ref.current?.navigate('bar'));
+
+  expect(canDeactivate).toBeCalledTimes(1);
+  expect(onStateChange).not.toHaveBeenCalled();
+  expect(onNavigationDenied).toBeCalledTimes(1);
+  expect(onNavigationDenied.mock.calls[0][0].data).toEqual({
+    action: CommonActions.navigate('bar'),
+    route: expect.objectContaining({ name: 'foo' }),
+    guard: 'canDeactivate',
+  });
+});
+
+it('dispatches actions from guards through the navigation object', async () => {
+  const TestNavigator = (props: any) => {
+    const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+    return (
+      <React.Fragment>
+        {state.routes.map((route) => descriptors[route.key].render())}
+      </React.Fragment>
+    );
+  };
+
+  const canActivate = jest.fn(() => Promise.resolve(true));
+  const canDeactivate = jest.fn(() => CommonActions.navigate('missing'));
+
+  const onAction = jest.fn();
+  const onUnhandledAction = jest.fn();
+
+  const ref = React.createRef<NavigationContainerRef>();
+
+  render(
+    <BaseNavigationContainer ref={ref} onUnhandledAction={onUnhandledAction}>
+      <TestNavigator>
+        <Screen name="foo">{() => null}</Screen>
+        <Screen
+          name="bar"
+          canActivate={canActivate}
+          canDeactivate={canDeactivate}
+        >
+          {() => null}
+        </Screen>
+        <Screen name="baz">{() => null}</Screen>
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  ref.current?.addListener('action', (e) => onAction(e.data));
+
+  await act(async () => ref.current?.navigate('bar'));
+
+  expect(ref.current?.getCurrentRoute()?.name).toBe('bar');
+  expect(onAction).toHaveBeenLastCalledWith(
+    expect.objectContaining({
+      action: expect.objectContaining({ type: 'NAVIGATE' }),
+      handled: true,
+      state: expect.objectContaining({ index: 0 }),
+      nextState: expect.objectContaining({ index: 1 }),
+    })
+  );
+
+  act(() => ref.current?.navigate('baz'));
+
+  // The redirect from the guard isn't handled by any navigator
+  expect(onUnhandledAction).toHaveBeenCalledWith(
+    CommonActions.navigate('missing')
+  );
+  expect(ref.current?.getCurrentRoute()?.name).toBe('bar');
+});
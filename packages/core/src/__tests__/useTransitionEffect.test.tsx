@@ -0,0 +1,157 @@
+import * as React from 'react';
+import { render, act } from '@testing-library/react-native';
+import useNavigationBuilder from '../useNavigationBuilder';
+import useTransitionEffect from '../useTransitionEffect';
+import useFocusTransitionEvents from '../useFocusTransitionEvents';
+import BaseNavigationContainer from '../BaseNavigationContainer';
+import Screen from '../Screen';
+import MockRouter from './__fixtures__/MockRouter';
+
+it('runs transition effect after the transition ends', () => {
+  let navigatorNavigation: any;
+
+  const TestNavigator = (props: any): any => {
+    const { state, navigation, descriptors } = useNavigationBuilder(
+      MockRouter,
+      props
+    );
+
+    navigatorNavigation = navigation;
+
+    return state.routes.map((route) => descriptors[route.key].render());
+  };
+
+  const effect = jest.fn();
+  const effectCleanup = jest.fn();
+
+  const Test = () => {
+    const callback = React.useCallback(() => {
+      effect();
+
+      return effectCleanup;
+    }, []);
+
+    useTransitionEffect(callback);
+
+    return null;
+  };
+
+  const navigation = React.createRef<any>();
+
+  render(
+    <BaseNavigationContainer ref={navigation}>
+      <TestNavigator>
+        <Screen name="first">{() => null}</Screen>
+        <Screen name="second" component={Test} />
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  const secondKey = navigation.current.getRootState().routes[1].key;
+
+  act(() => {
+    navigatorNavigation.emit({
+      type: 'transitionStart',
+      data: { closing: false },
+      target: secondKey,
+    });
+
+    navigation.current.navigate('second');
+  });
+
+  expect(effect).not.toBeCalled();
+
+  act(() => {
+    navigatorNavigation.emit({
+      type: 'transitionEnd',
+      data: { closing: false },
+      target: secondKey,
+    });
+  });
+
+  expect(effect).toBeCalledTimes(1);
+  expect(effectCleanup).not.toBeCalled();
+
+  act(() => {
+    navigatorNavigation.emit({
+      type: 'transitionStart',
+      data: { closing: true },
+      target: secondKey,
+    });
+  });
+
+  expect(effectCleanup).toBeCalledTimes(1);
+
+  act(() => {
+    navigatorNavigation.emit({
+      type: 'transitionEnd',
+      data: { closing: true },
+      target: secondKey,
+    });
+
+    navigation.current.navigate('first');
+  });
+
+  expect(effect).toBeCalledTimes(1);
+  expect(effectCleanup).toBeCalledTimes(1);
+});
+
+it('runs transition effect immediately without a transition', () => {
+  const TestNavigator = (props: any): any => {
+    const { state, navigation, descriptors } = useNavigationBuilder(
+      MockRouter,
+      props
+    );
+
+    useFocusTransitionEvents(state, navigation);
+
+    return state.routes.map((route) => descriptors[route.key].render());
+  };
+
+  const effect = jest.fn();
+  const effectCleanup = jest.fn();
+  const onTransitionEnd = jest.fn();
+
+  const Test = () => {
+    const callback = React.useCallback(() => {
+      effect();
+
+      return effectCleanup;
+    }, []);
+
+    useTransitionEffect(callback);
+
+    return null;
+  };
+
+  const navigation = React.createRef<any>();
+
+  render(
+    <BaseNavigationContainer ref={navigation}>
+      <TestNavigator>
+        <Screen name="first">{() => null}</Screen>
+        <Screen
+          name="second"
+          component={Test}
+          listeners={{ transitionEnd: onTransitionEnd }}
+        />
+      </TestNavigator>
+    </BaseNavigationContainer>
+  );
+
+  expect(effect).not.toBeCalled();
+
+  act(() => navigation.current.navigate('second'));
+
+  expect(effect).toBeCalledTimes(1);
+  expect(onTransitionEnd).toBeCalledWith(
+    expect.objectContaining({ data: { closing: false } })
+  );
+
+  act(() => navigation.current.navigate('first'));
+
+  expect(effectCleanup).toBeCalledTimes(1);
+  expect(onTransitionEnd).toHaveBeenLastCalledWith(
+    expect.objectContaining({ data: { closing: true } })
+  );
+});
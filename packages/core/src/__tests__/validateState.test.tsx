@@ -0,0 +1,109 @@
+import validateState from '../validateState';
+
+const tree = {
+  type: 'stack',
+  routeNames: ['foo', 'bar'],
+  navigators: {
+    bar: {
+      type: 'tab',
+      routeNames: ['baz', 'qux'],
+    },
+  },
+};
+
+it('returns a valid report for valid state', () => {
+  expect(
+    validateState(
+      {
+        index: 1,
+        routes: [
+          { name: 'foo', params: { answer: 42 } },
+          {
+            name: 'bar',
+            state: { type: 'tab', routes: [{ name: 'baz' }, { name: 'qux' }] },
+          },
+        ],
+      },
+      tree
+    )
+  ).toEqual({ valid: true, errors: [] });
+});
+
+it('reports unknown routes and invalid indexes', () => {
+  expect(
+    validateState(
+      {
+        index: 2,
+        routes: [
+          { name: 'foo' },
+          {
+            name: 'bar',
+            state: { index: -1, routes: [{ name: 'baz' }, { name: 'quz' }] },
+          },
+        ],
+      },
+      tree
+    )
+  ).toEqual({
+    valid: false,
+    errors: [
+      { type: 'invalid_index', path: ['index'], index: 2, length: 2 },
+      {
+        type: 'invalid_index',
+        path: ['routes', 1, 'state', 'index'],
+        index: -1,
+        length: 2,
+      },
+      {
+        type: 'unknown_route',
+        path: ['routes', 1, 'state', 'routes', 1, 'name'],
+        name: 'quz',
+        routeNames: ['baz', 'qux'],
+      },
+    ],
+  });
+});
+
+it('reports type mismatches and non-serializable params', () => {
+  expect(
+    validateState(
+      {
+        routes: [
+          { name: 'foo', params: { onPress: () => {} } },
+          {
+            name: 'bar',
+            state: { type: 'stack', routes: [{ name: 'quz' }] },
+          },
+        ],
+      },
+      tree
+    )
+  ).toEqual({
+    valid: false,
+    errors: [
+      {
+        type: 'non_serializable_params',
+        path: ['routes', 0, 'params'],
+        location: ['onPress'],
+        reason: 'Function',
+      },
+      {
+        type: 'type_mismatch',
+        path: ['routes', 1, 'state', 'type'],
+        expected: 'tab',
+        received: 'stack',
+      },
+    ],
+  });
+});
+
+it("doesn't validate nested states without a navigator in the tree", () => {
+  expect(
+    validateState(
+      {
+        routes: [{ name: 'foo', state: { routes: [{ name: 'quz' }] } }],
+      },
+      tree
+    )
+  ).toEqual({ valid: true, errors: [] });
+});
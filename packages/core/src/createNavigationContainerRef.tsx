@@ -0,0 +1,153 @@
+import { CommonActions } from '@react-navigation/routers';
+import { NOT_INITIALIZED_ERROR } from './BaseNavigationContainer';
+import type {
+  NavigationContainerRef,
+  NavigationContainerRefWithCurrent,
+} from './types';
+
+type Listener = {
+  type: string;
+  callback: (e: any) => void;
+};
+
+/**
+ * Create a ref object to pass to the navigation container.
+ * Actions dispatched before the root navigator has mounted are queued,
+ * and dispatched in the same order once the container is ready.
+ *
+ * @returns Ref object which can be used to navigate outside of the navigators.
+ */
+export default function createNavigationContainerRef(): NavigationContainerRefWithCurrent {
+  let current: NavigationContainerRef | null = null;
+
+  // Listeners are stored so they keep working when the container remounts
+  const listeners: Listener[] = [];
+  const unsubscribers: (() => void)[] = [];
+
+  let queue: ((navigation: NavigationContainerRef) => void)[] = [];
+
+  const flush = () => {
+    const navigation = current;
+
+    if (!navigation?.isReady()) {
+      return;
+    }
+
+    const pending = queue;
+
+    queue = [];
+    pending.forEach((callback) => callback(navigation));
+  };
+
+  const enqueue = (callback: (navigation: NavigationContainerRef) => void) => {
+    if (current?.isReady()) {
+      callback(current);
+    } else {
+      queue.push(callback);
+    }
+  };
+
+  function call<T>(
+    callback: (navigation: NavigationContainerRef) => T
+  ): T | undefined {
+    if (current == null) {
+      console.error(NOT_INITIALIZED_ERROR);
+      return undefined;
+    }
+
+    return callback(current);
+  }
+
+  const navigation = {
+    ...(Object.keys(CommonActions) as (keyof typeof CommonActions)[]).reduce<
+      any
+    >((acc, name) => {
+      acc[name] = (...args: any[]) =>
+        enqueue((navigation) =>
+          navigation.dispatch(
+            CommonActions[name](
+              // @ts-expect-error: we can't know the type statically
+              ...args
+            )
+          )
+        );
+      return acc;
+    }, {}),
+    dispatch: (action: Parameters<NavigationContainerRef['dispatch']>[0]) =>
+      enqueue((navigation) => navigation.dispatch(action)),
+    batch: (callback: Parameters<NavigationContainerRef['batch']>[0]) =>
+      enqueue((navigation) => navigation.batch(callback)),
+    resetRoot: (state: Parameters<NavigationContainerRef['resetRoot']>[0]) =>
+      call((navigation) => navigation.resetRoot(state)),
+    addListener: (type: string, callback: (e: any) => void) => {
+      const listener = { type, callback };
+
+      listeners.push(listener);
+
+      const unsubscribe = current?.addListener(type as any, callback);
+
+      if (unsubscribe) {
+        unsubscribers.push(unsubscribe);
+      }
+
+      return () => {
+        const index = listeners.indexOf(listener);
+
+        if (index > -1) {
+          listeners.splice(index, 1);
+        }
+
+        current?.removeListener(type as any, callback);
+      };
+    },
+    removeListener: (type: string, callback: (e: any) => void) => {
+      const index = listeners.findIndex(
+        (listener) => listener.type === type && listener.callback === callback
+      );
+
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+
+      current?.removeListener(type as any, callback);
+    },
+    isReady: () => current?.isReady() ?? false,
+    isFocused: () => current?.isFocused() ?? false,
+    canGoBack: () => current?.canGoBack() ?? false,
+    getRootState: () => call((navigation) => navigation.getRootState()),
+    getCurrentRoute: () => current?.getCurrentRoute(),
+    getCurrentOptions: () => current?.getCurrentOptions(),
+    getNavigatorTree: () => current?.getNavigatorTree(),
+    dangerouslyGetState: () =>
+      call((navigation) => navigation.dangerouslyGetState()),
+    getId: () => undefined,
+    dangerouslyGetParent: () => undefined,
+  };
+
+  Object.defineProperty(navigation, 'current', {
+    get() {
+      return current;
+    },
+    set(value: NavigationContainerRef | null) {
+      unsubscribers.splice(0).forEach((unsubscribe) => unsubscribe());
+
+      current = value;
+
+      if (value == null) {
+        return;
+      }
+
+      unsubscribers.push(
+        value.addListener('ready', flush),
+        ...listeners.map(({ type, callback }) =>
+          value.addListener(type as any, callback)
+        )
+      );
+
+      flush();
+    },
+    enumerable: true,
+  });
+
+  return navigation as NavigationContainerRefWithCurrent;
+}
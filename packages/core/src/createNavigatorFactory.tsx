@@ -1,14 +1,15 @@
 import type * as React from 'react';
 import type { ParamListBase, NavigationState } from '@react-navigation/routers';
 import Screen from './Screen';
+import Group from './Group';
 import type { TypedNavigator, EventMapBase } from './types';
 
 /**
- * Higher order component to create a `Navigator` and `Screen` pair.
+ * Higher order component to create a `Navigator`, `Screen` and `Group`.
  * Custom navigators should wrap the navigator component in `createNavigator` before exporting.
  *
  * @param Navigator The navigtor component to wrap.
- * @returns Factory method to create a `Navigator` and `Screen` pair.
+ * @returns Factory method to create a `Navigator`, `Screen` and `Group`.
  */
 export default function createNavigatorFactory<
   State extends NavigationState,
@@ -32,6 +33,7 @@ export default function createNavigatorFactory<
     return {
       Navigator,
       Screen,
+      Group,
     };
   };
 }
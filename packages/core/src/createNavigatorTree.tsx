@@ -0,0 +1,68 @@
+import type { NavigatorTree } from './types';
+
+export type NavigatorTreeConfig = {
+  /**
+   * Type of the router used by the navigator, e.g. `stack`.
+   */
+  type: string;
+  /**
+   * Name of the screen to render first in the navigator.
+   */
+  initialRouteName?: string;
+  /**
+   * Screens in the navigator, with the config of the nested navigator or `null` for screens without one.
+   */
+  screens: Record<string, NavigatorTreeConfig | null>;
+};
+
+/**
+ * Create a description of the navigators ahead of time from a static config.
+ * It's in the same format as the tree returned by `getNavigatorTree`.
+ *
+ * @param config Config object containing the type and the screens of the navigator.
+ * @returns Description of the navigator and the navigators nested in it.
+ */
+export default function createNavigatorTree(
+  config: NavigatorTreeConfig
+): NavigatorTree {
+  const routeNames = Object.keys(config.screens);
+
+  if (routeNames.length === 0) {
+    throw new Error(
+      `Couldn't find any screens for the navigator of type '${config.type}'.`
+    );
+  }
+
+  if (
+    config.initialRouteName !== undefined &&
+    !routeNames.includes(config.initialRouteName)
+  ) {
+    throw new Error(
+      `The initial route '${
+        config.initialRouteName
+      }' doesn't match any of the screens (${routeNames
+        .map((name) => `'${name}'`)
+        .join(', ')}).`
+    );
+  }
+
+  const navigators = routeNames.reduce<Record<string, NavigatorTree>>(
+    (acc, name) => {
+      const screen = config.screens[name];
+
+      if (screen != null) {
+        acc[name] = createNavigatorTree(screen);
+      }
+
+      return acc;
+    },
+    {}
+  );
+
+  return {
+    type: config.type,
+    routeNames,
+    initialRouteName: config.initialRouteName,
+    navigators,
+  };
+}
@@ -0,0 +1,74 @@
+import type {
+  InitialState,
+  NavigationState,
+  PartialState,
+  Route,
+} from '@react-navigation/routers';
+import type { NavigationContainerRef } from './types';
+
+type PartialRoute = Omit<Route<string>, 'key'> & { key?: string };
+
+type AnyState = NavigationState | PartialState<NavigationState> | InitialState;
+
+export type ActiveRouteChainItem = {
+  /**
+   * Focused route in the navigator.
+   * The key can be `undefined` for partial states, e.g. from a deep link.
+   */
+  route: PartialRoute;
+  /**
+   * Key of the navigator containing the route.
+   * It can be `undefined` for partial states, e.g. from a deep link.
+   */
+  navigatorKey: string | undefined;
+  /**
+   * Type of the navigator containing the route, e.g. `stack`.
+   * It can be `undefined` for partial states, e.g. from a deep link.
+   */
+  navigatorType: string | undefined;
+};
+
+const isContainerRef = (
+  value: AnyState | NavigationContainerRef
+): value is NavigationContainerRef =>
+  typeof (value as NavigationContainerRef).getRootState === 'function';
+
+/**
+ * Get the chain of focused routes, from the root navigator to the deepest focused route.
+ *
+ * @param state Full or partial navigation state, or a ref to the navigation container.
+ * @returns Focused route in each navigator, along with the navigator's key and type.
+ */
+export default function getActiveRouteChain(
+  state: AnyState | NavigationContainerRef | undefined
+): ActiveRouteChainItem[] {
+  let current: AnyState | undefined;
+
+  if (state && isContainerRef(state)) {
+    current = state.isReady() ? state.getRootState() : undefined;
+  } else {
+    current = state;
+  }
+
+  const chain: ActiveRouteChainItem[] = [];
+
+  while (current?.routes.length) {
+    const { key, type } = current as Partial<NavigationState>;
+
+    const route: PartialRoute & { state?: AnyState } =
+      current.routes[
+        // If we have a partial state without index, for tab/drawer, first screen will be focused one, and last for stack
+        // The type property will only exist for rehydrated state and not for state from deep link
+        current.index ??
+          (typeof type === 'string' && type !== 'stack'
+            ? 0
+            : current.routes.length - 1)
+      ];
+
+    chain.push({ route, navigatorKey: key, navigatorType: type });
+
+    current = route.state;
+  }
+
+  return chain;
+}
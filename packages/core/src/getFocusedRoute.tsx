@@ -0,0 +1,26 @@
+import type {
+  InitialState,
+  NavigationState,
+  PartialState,
+} from '@react-navigation/routers';
+import getActiveRouteChain from './getActiveRouteChain';
+import type { NavigationContainerRef } from './types';
+
+/**
+ * Get the deepest focused route in a navigation state.
+ *
+ * @param state Full or partial navigation state, or a ref to the navigation container.
+ * @returns Deepest focused route, or `undefined` if there are no routes.
+ */
+export default function getFocusedRoute(
+  state:
+    | NavigationState
+    | PartialState<NavigationState>
+    | InitialState
+    | NavigationContainerRef
+    | undefined
+) {
+  const chain = getActiveRouteChain(state);
+
+  return chain.length ? chain[chain.length - 1].route : undefined;
+}
@@ -0,0 +1,15 @@
+import type * as React from 'react';
+import type { NavigationContainerRef, NavigatorTree } from './types';
+
+/**
+ * Get the description of the navigators which are currently rendered in a container.
+ * Navigators inside screens which haven't been rendered yet (e.g. lazy tabs) aren't included.
+ *
+ * @param ref Ref object for the navigation container.
+ * @returns Description of the root navigator and the navigators nested in it.
+ */
+export default function getNavigatorTree(
+  ref: React.RefObject<NavigationContainerRef>
+): NavigatorTree | undefined {
+  return ref.current?.getNavigatorTree();
+}
@@ -1,6 +1,7 @@
 export * from '@react-navigation/routers';
 
 export { default as BaseNavigationContainer } from './BaseNavigationContainer';
+export { default as createNavigationContainerRef } from './createNavigationContainerRef';
 export { default as createNavigatorFactory } from './createNavigatorFactory';
 
 export { default as NavigationHelpersContext } from './NavigationHelpersContext';
@@ -13,13 +14,39 @@ export { default as useNavigationBuilder } from './useNavigationBuilder';
 export { default as useNavigation } from './useNavigation';
 export { default as useRoute } from './useRoute';
 export { default as useFocusEffect } from './useFocusEffect';
+export type { FocusEffectOptions } from './useFocusEffect';
+export { default as useAsyncFocusEffect } from './useAsyncFocusEffect';
+export { default as useTransitionEffect } from './useTransitionEffect';
+export { default as useFocusTransitionEvents } from './useFocusTransitionEvents';
 export { default as useIsFocused } from './useIsFocused';
+export { default as useFocusedRouteChain } from './useFocusedRouteChain';
 export { default as useNavigationState } from './useNavigationState';
+export type { NavigationStateOptions } from './useNavigationState';
+export { default as useRouteOptions } from './useRouteOptions';
 
 export { default as getStateFromPath } from './getStateFromPath';
 export { default as getPathFromState } from './getPathFromState';
 export { default as getActionFromState } from './getActionFromState';
 
 export { default as getFocusedRouteNameFromRoute } from './getFocusedRouteNameFromRoute';
+export { default as getFocusedRoute } from './getFocusedRoute';
+export { default as getActiveRouteChain } from './getActiveRouteChain';
+export type { ActiveRouteChainItem } from './getActiveRouteChain';
+
+export { default as validateState } from './validateState';
+export { default as createNavigatorTree } from './createNavigatorTree';
+export type { NavigatorTreeConfig } from './createNavigatorTree';
+export { default as getNavigatorTree } from './getNavigatorTree';
+
+export {
+  createComponentForStaticNavigation,
+  createPathConfigForStaticNavigation,
+} from './StaticNavigation';
+export type {
+  StaticNavigatorConfig,
+  StaticScreenConfig,
+  StaticParamList,
+  TypedStaticNavigatorConfig,
+} from './StaticNavigation';
 
 export * from './types';
@@ -0,0 +1,14 @@
+/**
+ * Compare two records with primitive values as the content.
+ */
+export default function isRecordEqual(
+  a: Record<string, any>,
+  b: Record<string, any>
+) {
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+
+  return (
+    aKeys.length === bKeys.length && aKeys.every((key) => a[key] === b[key])
+  );
+}
@@ -9,12 +9,75 @@ import type {
   ParamListBase,
 } from '@react-navigation/routers';
 
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace ReactNavigation {
+    /**
+     * Param list for the root navigator of the app.
+     * Specify it with declaration merging to use it as the default type for `useNavigation`, `Link` etc.
+     *
+     * @example
+     * ```ts
+     * declare global {
+     *   namespace ReactNavigation {
+     *     interface RootParamList extends RootStackParamList {}
+     *   }
+     * }
+     * ```
+     */
+    // eslint-disable-next-line @typescript-eslint/no-empty-interface
+    interface RootParamList {}
+  }
+}
+
+/**
+ * Param list specified in `ReactNavigation.RootParamList`, or `ParamListBase` if it's not specified.
+ */
+export type RootParamList = {} extends ReactNavigation.RootParamList
+  ? ParamListBase
+  : ReactNavigation.RootParamList;
+
+/**
+ * Params for a screen which contains a nested navigator.
+ * Params for the screen in the nested navigator are type-checked according to its param list.
+ */
+export type NavigatorScreenParams<
+  ParamList extends ParamListBase,
+  State extends NavigationState = NavigationState
+> =
+  | {
+      [RouteName in keyof ParamList]: undefined extends ParamList[RouteName]
+        ? {
+            screen: RouteName;
+            params?: ParamList[RouteName];
+            initial?: boolean;
+            state?: never;
+          }
+        : {
+            screen: RouteName;
+            params: ParamList[RouteName];
+            initial?: boolean;
+            state?: never;
+          };
+    }[keyof ParamList]
+  | {
+      screen?: never;
+      params?: never;
+      initial?: never;
+      state: PartialState<State> | State;
+    };
+
 export type DefaultNavigatorOptions<
   ScreenOptions extends {}
 > = DefaultRouterOptions & {
+  /**
+   * Optional ID for the navigator.
+   * It can be used to select the state of this navigator with `useNavigationState` from nested screens.
+   */
+  id?: string;
   /**
    * Children React Elements to extract the route configuration from.
-   * Only `Screen` components are supported as children.
+   * Only `Screen`, `Group` and `React.Fragment` are supported as children.
    */
   children: React.ReactNode;
   /**
@@ -38,6 +101,21 @@ export type EventMapCore<State extends NavigationState> = {
   blur: { data: undefined };
   state: { data: { state: State } };
   beforeRemove: { data: { action: NavigationAction }; canPreventDefault: true };
+  /**
+   * Event which fires when a screen starts animating in or out.
+   */
+  transitionStart: { data: { closing: boolean } };
+  /**
+   * Event which fires when a screen finishes animating in or out.
+   */
+  transitionEnd: { data: { closing: boolean } };
+  navigationDenied: {
+    data: {
+      action: NavigationAction;
+      route: Route<string>;
+      guard: 'canActivate' | 'canDeactivate';
+    };
+  };
 };
 
 export type EventArg<
@@ -50,6 +128,12 @@ export type EventArg<
    */
   readonly type: EventName;
   readonly target?: string;
+  /**
+   * Stop the event from being delivered to the parent screens if it bubbles,
+   * to the nested screens if it descends,
+   * or to the target and the remaining parent screens if it's in the capture phase.
+   */
+  stopPropagation(): void;
 } & (CanPreventDefault extends true
   ? {
       /**
@@ -102,11 +186,17 @@ export type EventEmitter<EventMap extends EventMapBase> = {
    * @param [options.data] Optional information regarding the event.
    * @param [options.target] Key of the target route which should receive the event.
    * If not specified, all routes receive the event.
+   * @param [options.bubbles] Whether the parent screens should receive the event after the target, starting from the closest one.
+   * @param [options.capture] Whether the parent screens should receive the event before the target, starting from the root.
+   * @param [options.descend] Whether the focused screens of the navigators nested in the target should receive the event after the target.
    */
   emit<EventName extends Extract<keyof EventMap, string>>(
     options: {
       type: EventName;
       target?: string;
+      bubbles?: boolean;
+      capture?: boolean;
+      descend?: boolean;
     } & (EventMap[EventName]['canPreventDefault'] extends true
       ? { canPreventDefault: true }
       : {}) &
@@ -164,11 +254,17 @@ type NavigationHelpersCommon<
    * Navigate to a route in current navigation tree.
    *
    * @param route Object with `key` or `name` for the route to navigate to, and a `params` object.
+   * Pass `merge` to choose whether params are merged with the existing params of the route or replace them.
    */
   navigate<RouteName extends keyof ParamList>(
     route:
-      | { key: string; params?: ParamList[RouteName] }
-      | { name: RouteName; key?: string; params: ParamList[RouteName] }
+      | { key: string; params?: ParamList[RouteName]; merge?: boolean }
+      | {
+          name: RouteName;
+          key?: string;
+          params: ParamList[RouteName];
+          merge?: boolean;
+        }
   ): void;
 
   /**
@@ -178,6 +274,14 @@ type NavigationHelpersCommon<
    */
   reset(state: PartialState<State> | State): void;
 
+  /**
+   * Apply multiple actions as a single state change.
+   * If any of the actions isn't handled, none of the actions are applied.
+   *
+   * @param callback Function which dispatches the actions, or a list of action objects.
+   */
+  batch(callback: (() => void) | NavigationAction[]): void;
+
   /**
    * Go back to the previous route in history.
    */
@@ -197,6 +301,11 @@ type NavigationHelpersCommon<
    */
   canGoBack(): boolean;
 
+  /**
+   * Returns the ID of the navigator, if one was specified with the `id` prop.
+   */
+  getId(): string | undefined;
+
   /**
    * Returns the parent navigator, if any. Reason why the function is called
    * dangerouslyGetParent is to warn developers against overusing it to eg. get parent
@@ -228,6 +337,63 @@ export type NavigationHelpers<
     ): void;
   };
 
+/**
+ * Description of a navigator and the navigators nested inside its screens.
+ */
+export type NavigatorTree = {
+  /**
+   * Type of the router used by the navigator, e.g. `stack`.
+   */
+  type: string;
+  /**
+   * Names of the screens in the navigator.
+   */
+  routeNames: string[];
+  /**
+   * Name of the screen to render first in the navigator.
+   */
+  initialRouteName?: string;
+  /**
+   * Navigators nested inside the screens, by the name of the screen.
+   */
+  navigators?: Record<string, NavigatorTree | undefined>;
+};
+
+export type StateValidationError = {
+  /**
+   * Location of the invalid value in the state object, e.g. `['routes', 0, 'state']`.
+   */
+  path: (string | number)[];
+} & (
+  | { type: 'unknown_route'; name: string; routeNames: string[] }
+  | { type: 'type_mismatch'; expected: string; received: string }
+  | { type: 'invalid_index'; index: unknown; length: number }
+  | {
+      type: 'non_serializable_params';
+      location: (string | number)[];
+      reason: string;
+    }
+);
+
+export type StateValidationReport = {
+  valid: boolean;
+  errors: StateValidationError[];
+};
+
+/**
+ * Function which runs before an action is handled by the navigators.
+ * Call `next` with the action (or a different action) to continue, or skip calling it to drop the action.
+ *
+ * @param action Action object which was dispatched, with `target` set to the key of the navigator receiving it.
+ * @param getState Function which returns the current root navigation state.
+ * @param next Function to pass the action to the next middleware, or to the navigators if it's the last one.
+ */
+export type NavigationMiddleware = (
+  action: NavigationAction,
+  getState: () => NavigationState | undefined,
+  next: (action: NavigationAction) => void
+) => void;
+
 export type NavigationContainerProps = {
   /**
    * Initial navigation state for the child navigators.
@@ -241,6 +407,25 @@ export type NavigationContainerProps = {
    * Callback which is called when an action is not handled.
    */
   onUnhandledAction?: (action: NavigationAction) => void;
+  /**
+   * Callback which is called when a navigator receives a state which doesn't match its configuration.
+   * Specifying it enables validation of the states when navigators rehydrate them.
+   * Invalid parts of the state are still discarded by the routers as usual.
+   */
+  onInvalidState?: (
+    report: StateValidationReport,
+    state: NavigationState | PartialState<NavigationState>
+  ) => void;
+  /**
+   * Whether navigators should start from their initial state instead of rehydrating the parts of `initialState` which contain screens they don't have.
+   * This makes sure that an outdated state, such as a persisted state, is never rendered.
+   */
+  discardInvalidInitialState?: boolean;
+  /**
+   * List of middlewares which run for every action before it's handled by the navigators.
+   * The middlewares are run in order, and each of them can rewrite, delay or drop the action.
+   */
+  middleware?: NavigationMiddleware[];
   /**
    * Whether this navigation container should be independent of parent containers.
    * If this is not set to `true`, this container cannot be nested inside another container.
@@ -368,6 +553,20 @@ export type ScreenListeners<
   }
 >;
 
+/**
+ * Result of a navigation guard.
+ * `true` allows the navigation, `false` denies it, and an action object redirects to a different screen.
+ */
+export type NavigationGuardResult = boolean | NavigationAction;
+
+export type NavigationGuard<
+  ParamList extends ParamListBase,
+  RouteName extends keyof ParamList
+> = (
+  route: RouteProp<ParamList, RouteName>,
+  state: NavigationState
+) => NavigationGuardResult | Promise<NavigationGuardResult>;
+
 export type RouteConfig<
   ParamList extends ParamListBase,
   RouteName extends keyof ParamList,
@@ -404,6 +603,42 @@ export type RouteConfig<
    * Initial params object for the route.
    */
   initialParams?: Partial<ParamList[RouteName]>;
+
+  /**
+   * Function to return an unique ID for this screen.
+   * Receives an object with the route params.
+   * For a given screen name, there will always be only one screen corresponding to an ID.
+   * If `undefined` is returned, it acts same as no `getId` being specified.
+   */
+  getId?: ({ params }: { params: ParamList[RouteName] }) => string | undefined;
+
+  /**
+   * Function to decide whether this screen can be focused.
+   * Receives the route which is about to be focused and the current state of the navigator.
+   * It can return a boolean, or an action object to redirect, or a promise resolving to one.
+   */
+  canActivate?: NavigationGuard<ParamList, RouteName>;
+
+  /**
+   * Function to decide whether this screen can be unfocused, e.g. by navigating to another screen or removing it.
+   * Receives the currently focused route and the current state of the navigator.
+   * It can return a boolean, or an action object to redirect, or a promise resolving to one.
+   */
+  canDeactivate?: NavigationGuard<ParamList, RouteName>;
+
+  /**
+   * Optional key for this screen. This doesn't need to be unique.
+   * If the key changes, existing routes for this screen will be removed (if used in a stack) or reset (if used in a tab or drawer).
+   * This can be useful when we have some common screens which need to be removed or reset on condition changes.
+   */
+  navigationKey?: string;
+
+  /**
+   * Options of this screen to pass down to the navigators nested in it.
+   * Pass `true` to expose all of the options, or a list of option names to expose only some of them.
+   * Nested navigators use them as defaults, which are overridden by their own `screenOptions`.
+   */
+  exposeOptions?: true | (keyof ScreenOptions)[];
 } & (
   | {
       /**
@@ -434,6 +669,47 @@ export type RouteConfig<
     }
 );
 
+export type RouteGroupConfig<
+  ParamList extends ParamListBase,
+  ScreenOptions extends {},
+  State extends NavigationState = NavigationState,
+  EventMap extends EventMapBase = {}
+> = {
+  /**
+   * Optional key for the screens in this group.
+   * If the key changes, all existing screens in this group will be removed (if used in a stack) or reset (if used in a tab or drawer).
+   */
+  navigationKey?: string;
+
+  /**
+   * Options for all screens under this group.
+   * They override the `screenOptions` of the navigator or a parent group, and are overridden by the `options` of the screens.
+   */
+  screenOptions?:
+    | ScreenOptions
+    | ((props: {
+        route: RouteProp<ParamList, keyof ParamList>;
+        navigation: any;
+      }) => ScreenOptions);
+
+  /**
+   * Event listeners for all screens under this group.
+   * They are called before the `listeners` of the screens.
+   */
+  screenListeners?:
+    | ScreenListeners<State, EventMap>
+    | ((props: {
+        route: RouteProp<ParamList, keyof ParamList>;
+        navigation: any;
+      }) => ScreenListeners<State, EventMap>);
+
+  /**
+   * Children React Elements to extract the route configuration from.
+   * Only `Screen`, `Group` and `React.Fragment` are supported as children.
+   */
+  children: React.ReactNode;
+};
+
 export type NavigationContainerEventMap = {
   /**
    * Event which fires when the navigation state changes.
@@ -450,6 +726,38 @@ export type NavigationContainerEventMap = {
    * Event which fires when current options changes.
    */
   options: { data: { options: object } };
+  /**
+   * Event which fires once the root navigator has mounted and the container can handle actions.
+   */
+  ready: { data: undefined };
+  /**
+   * Event which fires after an action dispatched in any of the navigators has been handled.
+   */
+  action: {
+    data: {
+      /**
+       * The action object which was dispatched.
+       */
+      action: NavigationAction;
+      /**
+       * Navigation state of the root navigator before the action was handled.
+       */
+      state: NavigationState | undefined;
+      /**
+       * Navigation state of the root navigator after the action was handled.
+       */
+      nextState: NavigationState | undefined;
+      /**
+       * Whether any navigator handled the action.
+       */
+      handled: boolean;
+      /**
+       * Key of the navigator which handled the action.
+       * This is `undefined` if the action wasn't handled, or if it's waiting for the navigation guards.
+       */
+      navigatorKey: string | undefined;
+    };
+  };
   /**
    * Event which fires when an action is dispatched.
    * Only intended for debugging purposes, don't use it for app logic.
@@ -489,8 +797,20 @@ export type NavigationContainerRef = NavigationHelpers<ParamListBase> &
      * Get the currently focused route's options.
      */
     getCurrentOptions(): object | undefined;
+    /**
+     * Get the description of the navigators which are currently rendered.
+     */
+    getNavigatorTree(): NavigatorTree | undefined;
+    /**
+     * Whether the root navigator has mounted and the container can handle actions.
+     */
+    isReady(): boolean;
   };
 
+export type NavigationContainerRefWithCurrent = NavigationContainerRef & {
+  current: NavigationContainerRef | null;
+};
+
 export type TypedNavigator<
   ParamList extends ParamListBase,
   State extends NavigationState,
@@ -517,6 +837,12 @@ export type TypedNavigator<
   Screen: <RouteName extends keyof ParamList>(
     _: RouteConfig<ParamList, RouteName, State, ScreenOptions, EventMap>
   ) => null;
+  /**
+   * Component used for grouping multiple route configuration.
+   */
+  Group: React.ComponentType<
+    RouteGroupConfig<ParamList, ScreenOptions, State, EventMap>
+  >;
 };
 
 export type PathConfig = {
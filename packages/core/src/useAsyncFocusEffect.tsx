@@ -0,0 +1,37 @@
+import * as React from 'react';
+import useFocusEffect from './useFocusEffect';
+import type { FocusEffectOptions } from './useFocusEffect';
+
+type AsyncEffectCallback = (signal: AbortSignal) => Promise<void> | void;
+
+/**
+ * Hook to run an async effect in a focused screen, such as fetching data.
+ * The effect receives an `AbortSignal` which is aborted when the screen loses focus or unmounts.
+ * Errors thrown after the signal has been aborted are ignored, other errors are reported with `console.error`.
+ * The passed callback should be wrapped in `React.useCallback` to avoid running the effect too often.
+ *
+ * @param callback Memoized async callback containing the effect, receives an `AbortSignal`.
+ * @param options Options to configure when the effect runs.
+ */
+export default function useAsyncFocusEffect(
+  effect: AsyncEffectCallback,
+  options?: FocusEffectOptions
+) {
+  const callback = React.useCallback(() => {
+    const controller = new AbortController();
+
+    new Promise<void>((resolve) => resolve(effect(controller.signal))).catch(
+      (error) => {
+        // Errors such as `AbortError` are expected once the effect is aborted
+        // Rethrowing the error here would result in an unhandled promise rejection
+        if (!controller.signal.aborted) {
+          console.error(error);
+        }
+      }
+    );
+
+    return () => controller.abort();
+  }, [effect]);
+
+  useFocusEffect(callback, options);
+}
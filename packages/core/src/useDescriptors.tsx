@@ -10,18 +10,57 @@ import NavigationBuilderContext, {
   AddListener,
   AddKeyedListener,
 } from './NavigationBuilderContext';
-import type { NavigationEventEmitter } from './useEventEmitter';
+import {
+  NavigationEventEmitter,
+  isPropagationStopped,
+} from './useEventEmitter';
 import useNavigationCache from './useNavigationCache';
+import isRecordEqual from './isRecordEqual';
 import NavigationContext from './NavigationContext';
 import NavigationRouteContext from './NavigationRouteContext';
+import RouteOptionsContext from './RouteOptionsContext';
+import EventPropagationContext from './EventPropagationContext';
 import type {
   Descriptor,
+  EventArg,
   NavigationHelpers,
   RouteConfig,
   RouteProp,
   EventMapBase,
 } from './types';
 
+type ScreenConfig<
+  State extends NavigationState,
+  ScreenOptions extends {},
+  EventMap extends EventMapBase
+> = RouteConfig<ParamListBase, string, State, ScreenOptions, EventMap>;
+
+export type ScreenConfigWithParent<
+  State extends NavigationState,
+  ScreenOptions extends {},
+  EventMap extends EventMapBase
+> = {
+  /**
+   * The `navigationKey` of the parent group and the screen.
+   */
+  keys: (string | undefined)[];
+  /**
+   * The `screenOptions` of the parent groups followed by the `options` of the screen.
+   */
+  options: ScreenConfig<State, ScreenOptions, EventMap>['options'][];
+  /**
+   * The `screenListeners` of the parent groups followed by the `listeners` of the screen.
+   */
+  listeners: ScreenConfig<State, ScreenOptions, EventMap>['listeners'][];
+  props: ScreenConfig<State, ScreenOptions, EventMap>;
+};
+
+type RouteOptionsContextValue = NonNullable<
+  React.ContextType<typeof RouteOptionsContext>
+>;
+
+type Propagate = NonNullable<React.ContextType<typeof EventPropagationContext>>;
+
 type Options<
   State extends NavigationState,
   ScreenOptions extends {},
@@ -30,7 +69,7 @@ type Options<
   state: State;
   screens: Record<
     string,
-    RouteConfig<ParamListBase, string, State, ScreenOptions, EventMap>
+    ScreenConfigWithParent<State, ScreenOptions, EventMap>
   >;
   navigation: NavigationHelpers<ParamListBase>;
   screenOptions?:
@@ -82,6 +121,8 @@ export default function useDescriptors<
   const { onDispatchAction, onOptionsChange } = React.useContext(
     NavigationBuilderContext
   );
+  const parentRouteOptions = React.useContext(RouteOptionsContext);
+  const propagateParent = React.useContext(EventPropagationContext);
 
   const context = React.useMemo(
     () => ({
@@ -104,6 +145,28 @@ export default function useDescriptors<
     ]
   );
 
+  // The context values are cached for each route, so the navigators nested in the screens don't re-render needlessly
+  const routeOptionsCacheRef = React.useRef<
+    Record<
+      string,
+      {
+        route: State['routes'][number];
+        options: object;
+        parent: RouteOptionsContextValue | undefined;
+        value: RouteOptionsContextValue;
+      }
+    >
+  >({});
+
+  const propagateCacheRef = React.useRef<Record<string, Propagate>>({});
+
+  // The functions to propagate events read these from refs, so they don't need to change
+  const propagateParentRef = React.useRef(propagateParent);
+  const emitterRef = React.useRef(emitter);
+
+  propagateParentRef.current = propagateParent;
+  emitterRef.current = emitter;
+
   const navigations = useNavigationCache<State, ScreenOptions>({
     state,
     getState,
@@ -113,33 +176,105 @@ export default function useDescriptors<
     emitter,
   });
 
-  return state.routes.reduce<
+  const routeOptionsCache = routeOptionsCacheRef.current;
+  const propagateCache = propagateCacheRef.current;
+  const nextRouteOptionsCache: typeof routeOptionsCache = {};
+  const nextPropagateCache: typeof propagateCache = {};
+
+  const descriptors = state.routes.reduce<
     Record<string, Descriptor<ParamListBase, string, State, ScreenOptions>>
   >((acc, route) => {
-    const screen = screens[route.name];
+    const screen = screens[route.name].props;
     const navigation = navigations[route.key];
 
-    const routeOptions = {
+    const routeOptions = [
+      // The options exposed by the ancestor screens
+      parentRouteOptions?.inheritedOptions,
       // The default `screenOptions` passed to the navigator
-      ...(typeof screenOptions === 'object' || screenOptions == null
-        ? screenOptions
-        : // @ts-expect-error: this is a function, but typescript doesn't think so
-          screenOptions({
-            route,
-            navigation,
-          })),
-      // The `options` prop passed to `Screen` elements
-      ...(typeof screen.options === 'object' || screen.options == null
-        ? screen.options
-        : // @ts-expect-error: this is a function, but typescript doesn't think so
-          screen.options({
-            route,
-            navigation,
-          })),
-      // The options set via `navigation.setOptions`
-      ...options[route.key],
+      screenOptions,
+      // The `screenOptions` passed to `Group` elements and the `options` prop passed to `Screen` elements
+      ...screens[route.name].options,
+    ].reduce<object>(
+      (acc, curr) =>
+        Object.assign(
+          acc,
+          typeof curr === 'object' || curr == null
+            ? curr
+            : // @ts-expect-error: this is a function, but typescript doesn't think so
+              curr({
+                route,
+                navigation,
+              })
+        ),
+      {}
+    );
+
+    // The options set via `navigation.setOptions`
+    Object.assign(routeOptions, options[route.key]);
+
+    const { exposeOptions } = screen;
+
+    const nextRouteOptionsContext = {
+      routes: [
+        ...(parentRouteOptions?.routes ?? []),
+        { route, options: routeOptions },
+      ],
+      inheritedOptions:
+        exposeOptions === undefined
+          ? parentRouteOptions?.inheritedOptions
+          : {
+              ...parentRouteOptions?.inheritedOptions,
+              ...(exposeOptions === true
+                ? routeOptions
+                : exposeOptions.reduce<Record<string, unknown>>((acc, name) => {
+                    if (name in routeOptions) {
+                      acc[name as string] = (routeOptions as any)[name];
+                    }
+
+                    return acc;
+                  }, {})),
+            },
     };
 
+    const previousRouteOptions = routeOptionsCache[route.key];
+
+    const routeOptionsContext =
+      previousRouteOptions !== undefined &&
+      previousRouteOptions.route === route &&
+      previousRouteOptions.parent === parentRouteOptions &&
+      isRecordEqual(previousRouteOptions.options, routeOptions) &&
+      isRecordEqual(
+        previousRouteOptions.value.inheritedOptions ?? {},
+        nextRouteOptionsContext.inheritedOptions ?? {}
+      )
+        ? previousRouteOptions.value
+        : nextRouteOptionsContext;
+
+    nextRouteOptionsCache[route.key] = {
+      route,
+      options: routeOptions,
+      parent: parentRouteOptions,
+      value: routeOptionsContext,
+    };
+
+    const propagate =
+      propagateCache[route.key] ??
+      ((event: EventArg<string, any, any>, phase: 'capture' | 'bubble') => {
+        if (phase === 'capture') {
+          propagateParentRef.current?.(event, phase);
+        }
+
+        if (!isPropagationStopped(event)) {
+          emitterRef.current.notify(event, route.key);
+        }
+
+        if (phase === 'bubble' && !isPropagationStopped(event)) {
+          propagateParentRef.current?.(event, phase);
+        }
+      });
+
+    nextPropagateCache[route.key] = propagate;
+
     acc[route.key] = {
       navigation,
       render() {
@@ -147,14 +282,18 @@ export default function useDescriptors<
           <NavigationBuilderContext.Provider key={route.key} value={context}>
             <NavigationContext.Provider value={navigation}>
               <NavigationRouteContext.Provider value={route}>
-                <SceneView
-                  navigation={navigation}
-                  route={route}
-                  screen={screen}
-                  getState={getState}
-                  setState={setState}
-                  options={routeOptions}
-                />
+                <RouteOptionsContext.Provider value={routeOptionsContext}>
+                  <EventPropagationContext.Provider value={propagate}>
+                    <SceneView
+                      navigation={navigation}
+                      route={route}
+                      screen={screen}
+                      getState={getState}
+                      setState={setState}
+                      options={routeOptions}
+                    />
+                  </EventPropagationContext.Provider>
+                </RouteOptionsContext.Provider>
               </NavigationRouteContext.Provider>
             </NavigationContext.Provider>
           </NavigationBuilderContext.Provider>
@@ -165,4 +304,10 @@ export default function useDescriptors<
 
     return acc;
   }, {});
+
+  // Only keep the cached values for the routes which are still in the state
+  routeOptionsCacheRef.current = nextRouteOptionsCache;
+  propagateCacheRef.current = nextPropagateCache;
+
+  return descriptors;
 }
@@ -1,24 +1,42 @@
 import * as React from 'react';
+import EventPropagationContext from './EventPropagationContext';
 import type { EventEmitter, EventConsumer, EventArg } from './types';
 
 export type NavigationEventEmitter<
   T extends Record<string, any>
 > = EventEmitter<T> & {
   create: (target: string) => EventConsumer<T>;
+  /**
+   * Deliver an existing event object to the listeners for a target without propagating it.
+   */
+  notify: (event: EventArg<string, any, any>, target?: string) => void;
 };
 
 type Listeners = ((e: any) => void)[];
 
+const stoppedEvents = new WeakSet<object>();
+
+/**
+ * Check whether `event.stopPropagation()` was called on an event object.
+ */
+export const isPropagationStopped = (event: object) => stoppedEvents.has(event);
+
 /**
  * Hook to manage the event system used by the navigator to notify screens of various events.
  */
 export default function useEventEmitter<T extends Record<string, any>>(
-  listen?: (e: any) => void
+  listen?: (e: any, target: string | undefined) => void,
+  descend?: (e: EventArg<string, any, any>, target: string) => void
 ): NavigationEventEmitter<T> {
   const listenRef = React.useRef(listen);
+  const descendRef = React.useRef(descend);
+  const propagate = React.useContext(EventPropagationContext);
+  const propagateRef = React.useRef(propagate);
 
   React.useEffect(() => {
     listenRef.current = listen;
+    descendRef.current = descend;
+    propagateRef.current = propagate;
   });
 
   const listeners = React.useRef<Record<string, Record<string, Listeners>>>({});
@@ -52,33 +70,49 @@ export default function useEventEmitter<T extends Record<string, any>>(
     };
   }, []);
 
+  const notify = React.useCallback(
+    (event: EventArg<string, any, any>, target?: string) => {
+      const items = listeners.current[event.type] || {};
+
+      // Copy the current list of callbacks in case they are mutated during execution
+      const callbacks =
+        target !== undefined
+          ? items[target]?.slice()
+          : ([] as Listeners)
+              .concat(...Object.keys(items).map((t) => items[t]))
+              .filter((cb, i, self) => self.lastIndexOf(cb) === i);
+
+      listenRef.current?.(event, target);
+
+      callbacks?.forEach((cb) => cb(event));
+    },
+    []
+  );
+
   const emit = React.useCallback(
     ({
       type,
       data,
       target,
       canPreventDefault,
+      bubbles,
+      capture,
+      descend,
     }: {
       type: string;
       data?: any;
       target?: string;
       canPreventDefault?: boolean;
+      bubbles?: boolean;
+      capture?: boolean;
+      descend?: boolean;
     }) => {
-      const items = listeners.current[type] || {};
-
-      // Copy the current list of callbacks in case they are mutated during execution
-      const callbacks =
-        target !== undefined
-          ? items[target]?.slice()
-          : ([] as Listeners)
-              .concat(...Object.keys(items).map((t) => items[t]))
-              .filter((cb, i, self) => self.lastIndexOf(cb) === i);
-
-      const event: EventArg<any, any, any> = {
+      // The `stopPropagation` method is added below
+      const event = {
         get type() {
           return type;
         },
-      };
+      } as EventArg<any, any, any>;
 
       if (target !== undefined) {
         Object.defineProperty(event, 'target', {
@@ -117,14 +151,40 @@ export default function useEventEmitter<T extends Record<string, any>>(
         });
       }
 
-      listenRef.current?.(event);
+      // It's not enumerable to keep the event object same as before for the listeners which don't need it
+      Object.defineProperty(event, 'stopPropagation', {
+        value() {
+          stoppedEvents.add(event);
+        },
+      });
 
-      callbacks?.forEach((cb) => cb(event));
+      if (capture) {
+        // Parent screens receive the event before the target in the capture phase
+        propagateRef.current?.(event, 'capture');
+      }
+
+      if (!isPropagationStopped(event)) {
+        notify(event, target);
+      }
+
+      if (descend && target !== undefined && !isPropagationStopped(event)) {
+        // Focused screens in nested navigators receive the event after the target
+        descendRef.current?.(event, target);
+      }
+
+      if (bubbles && !isPropagationStopped(event)) {
+        // Parent screens receive the event after the target in the bubble phase
+        propagateRef.current?.(event, 'bubble');
+      }
 
       return event as any;
     },
-    []
+    [notify]
   );
 
-  return React.useMemo(() => ({ create, emit }), [create, emit]);
+  return React.useMemo(() => ({ create, emit, notify }), [
+    create,
+    emit,
+    notify,
+  ]);
 }
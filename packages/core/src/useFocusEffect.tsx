@@ -3,15 +3,51 @@ import useNavigation from './useNavigation';
 
 type EffectCallback = () => undefined | void | (() => void);
 
+export type FocusEffectOptions = {
+  /**
+   * Whether to wait for the transition animation of the screen to finish before running the effect.
+   * The effect is also cleaned up as soon as the screen starts animating out.
+   * Defaults to `false`.
+   */
+  waitForTransition?: boolean;
+};
+
 /**
  * Hook to run an effect in a focused screen, similar to `React.useEffect`.
  * This can be used to perform side-effects such as fetching data or subscribing to events.
  * The passed callback should be wrapped in `React.useCallback` to avoid running the effect too often.
  *
  * @param callback Memoized callback containing the effect, should optionally return a cleanup function.
+ * @param options Options to configure when the effect runs.
  */
-export default function useFocusEffect(effect: EffectCallback) {
+export default function useFocusEffect(
+  effect: EffectCallback,
+  options?: FocusEffectOptions
+) {
   const navigation = useNavigation();
+  const waitForTransition = options?.waitForTransition ?? false;
+  const isTransitioningRef = React.useRef(false);
+
+  // Navigators can start the transition when the screen mounts, before the effects run
+  // So we subscribe in a layout effect to make sure that we don't miss the event
+  React.useLayoutEffect(() => {
+    if (!waitForTransition) {
+      return;
+    }
+
+    const unsubscribeStart = navigation.addListener('transitionStart', () => {
+      isTransitioningRef.current = true;
+    });
+
+    const unsubscribeEnd = navigation.addListener('transitionEnd', () => {
+      isTransitioningRef.current = false;
+    });
+
+    return () => {
+      unsubscribeStart();
+      unsubscribeEnd();
+    };
+  }, [navigation, waitForTransition]);
 
   React.useEffect(() => {
     let isFocused = false;
@@ -46,6 +82,7 @@ export default function useFocusEffect(effect: EffectCallback) {
             '    fetchData();\n' +
             '  }, [someId])\n' +
             '};\n\n' +
+            "Or use 'useAsyncFocusEffect', which passes an 'AbortSignal' to the async function.\n\n" +
             'See usage guide: https://reactnavigation.org/docs/use-focus-effect';
         } else {
           message += ` You returned: '${JSON.stringify(destroy)}'`;
@@ -55,16 +92,10 @@ export default function useFocusEffect(effect: EffectCallback) {
       }
     };
 
-    // We need to run the effect on intial render/dep changes if the screen is focused
-    if (navigation.isFocused()) {
-      cleanup = callback();
-      isFocused = true;
-    }
-
-    const unsubscribeFocus = navigation.addListener('focus', () => {
+    const start = () => {
       // If callback was already called for focus, avoid calling it again
       // The focus event may also fire on intial render, so we guard against runing the effect twice
-      if (isFocused) {
+      if (isFocused || (waitForTransition && isTransitioningRef.current)) {
         return;
       }
 
@@ -74,16 +105,40 @@ export default function useFocusEffect(effect: EffectCallback) {
 
       cleanup = callback();
       isFocused = true;
-    });
+    };
 
-    const unsubscribeBlur = navigation.addListener('blur', () => {
+    const stop = () => {
       if (cleanup !== undefined) {
         cleanup();
       }
 
       cleanup = undefined;
       isFocused = false;
-    });
+    };
+
+    // We need to run the effect on intial render/dep changes if the screen is focused
+    if (navigation.isFocused()) {
+      start();
+    }
+
+    const unsubscribeFocus = navigation.addListener('focus', start);
+    const unsubscribeBlur = navigation.addListener('blur', stop);
+
+    const unsubscribeTransitionStart = waitForTransition
+      ? navigation.addListener('transitionStart', (e) => {
+          if (e.data.closing) {
+            stop();
+          }
+        })
+      : undefined;
+
+    const unsubscribeTransitionEnd = waitForTransition
+      ? navigation.addListener('transitionEnd', (e) => {
+          if (!e.data.closing && navigation.isFocused()) {
+            start();
+          }
+        })
+      : undefined;
 
     return () => {
       if (cleanup !== undefined) {
@@ -92,6 +147,8 @@ export default function useFocusEffect(effect: EffectCallback) {
 
       unsubscribeFocus();
       unsubscribeBlur();
+      unsubscribeTransitionStart?.();
+      unsubscribeTransitionEnd?.();
     };
-  }, [effect, navigation]);
+  }, [effect, navigation, waitForTransition]);
 }
@@ -0,0 +1,49 @@
+import * as React from 'react';
+import type { NavigationState, ParamListBase } from '@react-navigation/routers';
+import type { EventMapCore, NavigationHelpers } from './types';
+
+/**
+ * Hook to emit `transitionStart` and `transitionEnd` events when the focused route changes.
+ * This is intended for navigators which switch screens without an animation, so the transition ends immediately.
+ *
+ * @param state Navigation state of the navigator.
+ * @param navigation Navigation object of the navigator.
+ */
+export default function useFocusTransitionEvents<State extends NavigationState>(
+  state: State,
+  navigation: NavigationHelpers<ParamListBase, EventMapCore<State>>
+) {
+  const focusedKey = state.routes[state.index].key;
+  const previousFocusedKeyRef = React.useRef(focusedKey);
+
+  React.useEffect(() => {
+    const previousFocusedKey = previousFocusedKeyRef.current;
+
+    previousFocusedKeyRef.current = focusedKey;
+
+    if (previousFocusedKey === focusedKey) {
+      return;
+    }
+
+    const routes = [
+      { key: previousFocusedKey, closing: true },
+      { key: focusedKey, closing: false },
+    ];
+
+    routes.forEach(({ key, closing }) =>
+      navigation.emit({
+        type: 'transitionStart',
+        data: { closing },
+        target: key,
+      })
+    );
+
+    routes.forEach(({ key, closing }) =>
+      navigation.emit({
+        type: 'transitionEnd',
+        data: { closing },
+        target: key,
+      })
+    );
+  }, [focusedKey, navigation]);
+}
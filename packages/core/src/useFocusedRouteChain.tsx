@@ -0,0 +1,50 @@
+import * as React from 'react';
+import RootStateContext from './RootStateContext';
+import getActiveRouteChain from './getActiveRouteChain';
+import type { ActiveRouteChainItem } from './getActiveRouteChain';
+
+const isChainEqual = (a: ActiveRouteChainItem[], b: ActiveRouteChainItem[]) =>
+  a.length === b.length &&
+  a.every(
+    (item, index) =>
+      item.route.key === b[index].route.key &&
+      item.route.params === b[index].route.params &&
+      item.navigatorKey === b[index].navigatorKey
+  );
+
+/**
+ * Hook to get the chain of focused routes, from the root navigator to the deepest focused route.
+ * The component only re-renders when a route in the chain or its params change.
+ *
+ * @returns Focused route in each navigator, along with the navigator's key and type.
+ */
+export default function useFocusedRouteChain(): ActiveRouteChainItem[] {
+  const container = React.useContext(RootStateContext);
+
+  if (container === undefined) {
+    throw new Error(
+      "Couldn't find the navigation state. Is your component inside a navigation container?"
+    );
+  }
+
+  const [chain, setChain] = React.useState(() =>
+    getActiveRouteChain(container.getRootState())
+  );
+
+  React.useEffect(() => {
+    // The state of nested navigators is only available from the container
+    // So we read it from there instead of using the state from the event
+    const update = () =>
+      setChain((previous) => {
+        const next = getActiveRouteChain(container.getRootState());
+
+        return isChainEqual(previous, next) ? previous : next;
+      });
+
+    update();
+
+    return container.addListener('state', update);
+  }, [container]);
+
+  return chain;
+}
@@ -16,6 +16,8 @@ export default function useKeyedChildListeners() {
   >({
     getState: {},
     beforeRemove: {},
+    deactivateGuards: {},
+    descendEvent: {},
   });
 
   const addKeyedListener = React.useCallback(
@@ -1,15 +1,16 @@
 import * as React from 'react';
 import type { ParamListBase } from '@react-navigation/routers';
 import NavigationContext from './NavigationContext';
-import type { NavigationProp } from './types';
+import type { NavigationProp, RootParamList } from './types';
 
 /**
  * Hook to access the navigation prop of the parent screen anywhere.
+ * If no type is specified, the navigation prop is typed with `ReactNavigation.RootParamList`.
  *
  * @returns Navigation prop of the parent screen.
  */
 export default function useNavigation<
-  T extends NavigationProp<ParamListBase>
+  T extends NavigationProp<ParamListBase> = NavigationProp<RootParamList>
 >(): T {
   const navigation = React.useContext(NavigationContext);
 
@@ -10,15 +10,20 @@ import {
   PartialState,
   NavigationAction,
   Route,
+  RouteGetIdList,
 } from '@react-navigation/routers';
 import NavigationStateContext from './NavigationStateContext';
 import NavigationRouteContext from './NavigationRouteContext';
+import InvalidStateContext from './InvalidStateContext';
+import NavigatorTreeContext from './NavigatorTreeContext';
+import { DISCARD_IF_INVALID } from './BaseNavigationContainer';
 import Screen from './Screen';
+import Group from './Group';
 import useEventEmitter from './useEventEmitter';
 import useRegisterNavigator from './useRegisterNavigator';
-import useDescriptors from './useDescriptors';
+import useDescriptors, { ScreenConfigWithParent } from './useDescriptors';
 import useNavigationHelpers from './useNavigationHelpers';
-import useOnAction from './useOnAction';
+import useOnAction, { RouteGuard, RouteGuardList } from './useOnAction';
 import useFocusEvents from './useFocusEvents';
 import useOnRouteFocus from './useOnRouteFocus';
 import useChildListeners from './useChildListeners';
@@ -29,12 +34,16 @@ import {
   PrivateValueStore,
   EventMapBase,
   EventMapCore,
+  NavigationHelpers,
 } from './types';
 import useKeyedChildListeners from './useKeyedChildListeners';
 import useOnGetState from './useOnGetState';
+import useOnDescendEvent from './useOnDescendEvent';
 import useScheduleUpdate from './useScheduleUpdate';
 import useCurrentRender from './useCurrentRender';
 import isArrayEqual from './isArrayEqual';
+import isRecordEqual from './isRecordEqual';
+import validateState from './validateState';
 
 // This is to make TypeScript compiler happy
 // eslint-disable-next-line babel/no-unused-expressions
@@ -53,39 +62,78 @@ type NavigatorRoute = {
  * Extract route config object from React children elements.
  *
  * @param children React Elements to extract the config from.
+ * @param groupKeys Keys of the groups the screens are in, from the outermost group.
+ * @param groupOptions Screen options of the groups the screens are in.
+ * @param groupListeners Screen listeners of the groups the screens are in.
  */
 const getRouteConfigsFromChildren = <
   State extends NavigationState,
   ScreenOptions extends {},
   EventMap extends EventMapBase
 >(
-  children: React.ReactNode
+  children: React.ReactNode,
+  groupKeys: string[] = [],
+  groupOptions: ScreenConfigWithParent<
+    State,
+    ScreenOptions,
+    EventMap
+  >['options'] = [],
+  groupListeners: ScreenConfigWithParent<
+    State,
+    ScreenOptions,
+    EventMap
+  >['listeners'] = []
 ) => {
   const configs = React.Children.toArray(children).reduce<
-    RouteConfig<ParamListBase, string, State, ScreenOptions, EventMap>[]
+    ScreenConfigWithParent<State, ScreenOptions, EventMap>[]
   >((acc, child) => {
     if (React.isValidElement(child)) {
       if (child.type === Screen) {
         // We can only extract the config from `Screen` elements
         // If something else was rendered, it's probably a bug
-        acc.push(
-          child.props as RouteConfig<
-            ParamListBase,
-            string,
-            State,
-            ScreenOptions,
-            EventMap
-          >
-        );
+        const props = child.props as RouteConfig<
+          ParamListBase,
+          string,
+          State,
+          ScreenOptions,
+          EventMap
+        >;
+
+        acc.push({
+          keys: [...groupKeys, props.navigationKey],
+          options: [...groupOptions, props.options],
+          listeners: [...groupListeners, props.listeners],
+          props,
+        });
         return acc;
       }
 
-      if (child.type === React.Fragment) {
-        // When we encounter a fragment, we need to dive into its children to extract the configs
+      if (child.type === React.Fragment || child.type === Group) {
+        if (child.type === Group && child.props.navigationKey != null) {
+          if (typeof child.props.navigationKey !== 'string') {
+            throw new Error(
+              `Got an invalid 'navigationKey' prop (${JSON.stringify(
+                child.props.navigationKey
+              )}) for the group. It must be a string.`
+            );
+          }
+        }
+
+        // When we encounter a fragment or group, we need to dive into its children to extract the configs
         // This is handy to conditionally define a group of screens
         acc.push(
           ...getRouteConfigsFromChildren<State, ScreenOptions, EventMap>(
-            child.props.children
+            child.props.children,
+            // The keys of all of the groups are combined, so the screens are reset when any of them changes
+            child.type === Group && child.props.navigationKey != null
+              ? [...groupKeys, child.props.navigationKey]
+              : groupKeys,
+            child.type === Group
+              ? [...groupOptions, child.props.screenOptions]
+              : groupOptions,
+            child.type === Group
+              ? [...groupListeners, child.props.screenListeners]
+              : groupListeners
           )
         );
         return acc;
@@ -93,7 +141,7 @@ const getRouteConfigsFromChildren = <
     }
 
     throw new Error(
-      `A navigator can only contain 'Screen' components as its direct children (found '${
+      `A navigator can only contain 'Screen', 'Group' or 'React.Fragment' as its direct children (found '${
         // @ts-expect-error: child can be any type and we're accessing it safely, but TS doesn't understand it
         child.type?.name ? child.type.name : String(child)
       }')`
@@ -102,7 +150,14 @@ const getRouteConfigsFromChildren = <
 
   if (process.env.NODE_ENV !== 'production') {
     configs.forEach((config) => {
-      const { name, children, component, getComponent } = config;
+      const {
+        name,
+        children,
+        component,
+        getComponent,
+        getId,
+        navigationKey,
+      } = config.props;
 
       if (typeof name !== 'string' || !name) {
         throw new Error(
@@ -161,6 +216,20 @@ const getRouteConfigsFromChildren = <
             `Looks like you're passing an inline function for 'component' prop for the screen '${name}' (e.g. component={() => <SomeComponent />}). Passing an inline function will cause the component state to be lost on re-render and cause perf issues since it's re-created every render. You can pass the function as children to 'Screen' instead to achieve the desired behaviour.`
           );
         }
+
+        if (getId !== undefined && typeof getId !== 'function') {
+          throw new Error(
+            `Got an invalid value for 'getId' prop for the screen '${name}'. It must be a function returning a string or undefined.`
+          );
+        }
+
+        if (navigationKey !== undefined && typeof navigationKey !== 'string') {
+          throw new Error(
+            `Got an invalid 'navigationKey' prop (${JSON.stringify(
+              navigationKey
+            )}) for the screen '${name}'. It must be a string.`
+          );
+        }
       } else {
         throw new Error(
           `Couldn't find a 'component', 'getComponent' or 'children' prop for the screen '${name}'. This can happen if you passed 'undefined'. You likely forgot to export your component from the file it's defined in, or mixed up default import and named import when importing.`
@@ -219,25 +288,29 @@ export default function useNavigationBuilder<
   >(children);
 
   const screens = routeConfigs.reduce<
-    Record<
-      string,
-      RouteConfig<ParamListBase, string, State, ScreenOptions, EventMap>
-    >
+    Record<string, ScreenConfigWithParent<State, ScreenOptions, EventMap>>
   >((acc, config) => {
-    if (config.name in acc) {
+    if (config.props.name in acc) {
       throw new Error(
-        `A navigator cannot contain multiple 'Screen' components with the same name (found duplicate screen named '${config.name}')`
+        `A navigator cannot contain multiple 'Screen' components with the same name (found duplicate screen named '${config.props.name}')`
       );
     }
 
-    acc[config.name] = config;
+    acc[config.props.name] = config;
     return acc;
   }, {});
 
-  const routeNames = routeConfigs.map((config) => config.name);
+  const routeNames = routeConfigs.map(({ props }) => props.name);
+  const routeKeyList = routeConfigs.reduce<Record<string, string>>(
+    (acc, { keys, props }) => {
+      acc[props.name] = keys.map((key) => key ?? '').join(':');
+      return acc;
+    },
+    {}
+  );
   const routeParamList = routeNames.reduce<Record<string, object | undefined>>(
     (acc, curr) => {
-      const { initialParams } = screens[curr];
+      const { initialParams } = screens[curr].props;
       const initialParamsFromParams =
         route?.params?.initial !== false && route?.params?.screen === curr
           ? route.params.params
@@ -255,6 +328,21 @@ export default function useNavigationBuilder<
     },
     {}
   );
+  const routeGetIdList = routeNames.reduce<RouteGetIdList>((acc, curr) => {
+    acc[curr] = screens[curr].props.getId as RouteGetIdList[string];
+    return acc;
+  }, {});
+
+  const routeGuardList = routeNames.reduce<RouteGuardList>((acc, curr) => {
+    const { canActivate, canDeactivate } = screens[curr].props;
+
+    acc[curr] = {
+      canActivate: canActivate as RouteGuard | undefined,
+      canDeactivate: canDeactivate as RouteGuard | undefined,
+    };
+
+    return acc;
+  }, {});
 
   if (!routeNames.length) {
     throw new Error(
@@ -282,12 +370,56 @@ export default function useNavigationBuilder<
     getIsInitial,
   } = React.useContext(NavigationStateContext);
 
+  const onInvalidState = React.useContext(InvalidStateContext);
+
+  const invalidStateReport = React.useMemo(() => {
+    if (
+      onInvalidState === undefined ||
+      currentState === undefined ||
+      isStateInitialized(currentState)
+    ) {
+      return undefined;
+    }
+
+    // The state will be rehydrated or discarded, so we check what the router is going to drop
+    const report = validateState(currentState, {
+      type: router.type,
+      routeNames,
+    });
+
+    return report.valid ? undefined : report;
+    // The state is only validated when it changes, same as when it's rehydrated below
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentState, onInvalidState, router, isStateInitialized]);
+
+  React.useEffect(() => {
+    if (invalidStateReport !== undefined && currentState !== undefined) {
+      onInvalidState?.(invalidStateReport, currentState);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [invalidStateReport]);
+
+  // Parts of the initial state with screens that this navigator doesn't have are outdated, e.g. a persisted state
+  // So we start from the initial state instead of rendering what the router would rehydrate
+  const isStateDiscarded = (
+    state: NavigationState | PartialState<NavigationState>
+  ) =>
+    // @ts-expect-error: the marker isn't part of the state type
+    state[DISCARD_IF_INVALID] === true &&
+    state.routes.some(
+      (route: { name: string }) => !routeNames.includes(route.name)
+    );
+
   const [initializedState, isFirstStateInitialization] = React.useMemo(() => {
     // If the current state isn't initialized on first render, we initialize it
     // We also need to re-initialize it if the state passed from parent was changed (maybe due to reset)
     // Otherwise assume that the state was provided as initial state
     // So we need to rehydrate it to make it usable
-    if (currentState === undefined || !isStateValid(currentState)) {
+    if (
+      currentState === undefined ||
+      !isStateValid(currentState) ||
+      isStateDiscarded(currentState)
+    ) {
       return [
         router.getInitialState({
           routeNames,
@@ -323,11 +455,27 @@ export default function useNavigationBuilder<
 
   let nextState: State = state;
 
-  if (!isArrayEqual(state.routeNames, routeNames)) {
-    // When the list of route names change, the router should handle it to remove invalid routes
+  const previousRouteKeyListRef = React.useRef(routeKeyList);
+
+  React.useEffect(() => {
+    previousRouteKeyListRef.current = routeKeyList;
+  });
+
+  const previousRouteKeyList = previousRouteKeyListRef.current;
+
+  if (
+    !isArrayEqual(state.routeNames, routeNames) ||
+    !isRecordEqual(routeKeyList, previousRouteKeyList)
+  ) {
+    // When the list of route names or their keys change, the router should handle it to remove invalid routes
     nextState = router.getStateForRouteNamesChange(state, {
       routeNames,
       routeParamList,
+      routeKeyChanges: Object.keys(routeKeyList).filter(
+        (name) =>
+          previousRouteKeyList.hasOwnProperty(name) &&
+          routeKeyList[name] !== previousRouteKeyList[name]
+      ),
     });
   }
 
@@ -344,6 +492,7 @@ export default function useNavigationBuilder<
       {
         routeNames,
         routeParamList,
+        routeGetIdList,
       }
     );
 
@@ -408,13 +557,15 @@ export default function useNavigationBuilder<
       : (initializedStateRef.current as State);
   }, [getCurrentState, isStateInitialized]);
 
-  const emitter = useEventEmitter<EventMapCore<State>>((e) => {
+  const { keyedListeners, addKeyedListener } = useKeyedChildListeners();
+
+  const listen = (e: any, target: string | undefined) => {
     let routeNames = [];
 
     let route: Route<string> | undefined;
 
-    if (e.target) {
-      route = state.routes.find((route) => route.key === e.target);
+    if (target) {
+      route = state.routes.find((route) => route.key === target);
 
       if (route?.name) {
         routeNames.push(route.name);
@@ -434,24 +585,32 @@ export default function useNavigationBuilder<
 
     const listeners = ([] as (((e: any) => void) | undefined)[])
       .concat(
-        ...routeNames.map((name) => {
-          const { listeners } = screens[name];
-          const map =
-            typeof listeners === 'function'
-              ? listeners({ route: route as any, navigation })
-              : listeners;
-
-          return map
-            ? Object.keys(map)
-                .filter((type) => type === e.type)
-                .map((type) => map?.[type])
-            : undefined;
-        })
+        // The listeners of the parent groups are called before the listeners of the screen
+        ...routeNames
+          .reduce<
+            ScreenConfigWithParent<State, ScreenOptions, EventMap>['listeners']
+          >((acc, name) => acc.concat(screens[name].listeners), [])
+          .map((listeners) => {
+            const map =
+              typeof listeners === 'function'
+                ? listeners({ route: route as any, navigation })
+                : listeners;
+
+            return map
+              ? Object.keys(map)
+                  .filter((type) => type === e.type)
+                  .map((type) => map?.[type])
+              : undefined;
+          })
       )
       .filter((cb, i, self) => cb && self.lastIndexOf(cb) === i);
 
     listeners.forEach((listener) => listener?.(e));
-  });
+  };
+
+  const emitter = useEventEmitter<EventMapCore<State>>(listen, (e, target) =>
+    keyedListeners.descendEvent[target]?.(e)
+  );
 
   useFocusEvents({ state, emitter });
 
@@ -459,9 +618,28 @@ export default function useNavigationBuilder<
     emitter.emit({ type: 'state', data: { state } });
   }, [emitter, state]);
 
+  const registerNavigator = React.useContext(NavigatorTreeContext);
+
+  React.useEffect(() => {
+    // Keep the description of this navigator up-to-date for `getNavigatorTree`
+    registerNavigator?.(state.key, {
+      type: router.type,
+      routeNames,
+      initialRouteName: options.initialRouteName,
+    });
+
+    return () => registerNavigator?.(state.key, undefined);
+  });
+
   const { listeners: childListeners, addListener } = useChildListeners();
 
-  const { keyedListeners, addKeyedListener } = useKeyedChildListeners();
+  // The navigation object is created after the action handler, but guards need to dispatch through it
+  const navigationRef = React.useRef<NavigationHelpers<ParamListBase>>();
+
+  const dispatch = React.useCallback(
+    (action: NavigationAction) => navigationRef.current?.dispatch(action),
+    []
+  );
 
   const onAction = useOnAction({
     router,
@@ -470,11 +648,15 @@ export default function useNavigationBuilder<
     key: route?.key,
     actionListeners: childListeners.action,
     beforeRemoveListeners: keyedListeners.beforeRemove,
+    deactivateGuardsListeners: keyedListeners.deactivateGuards,
+    routeGuardList,
     routerConfigOptions: {
       routeNames,
       routeParamList,
+      routeGetIdList,
     },
     emitter,
+    dispatch,
   });
 
   const onRouteFocus = useOnRouteFocus({
@@ -489,8 +671,11 @@ export default function useNavigationBuilder<
     getState,
     emitter,
     router,
+    id: options.id,
   });
 
+  navigationRef.current = navigation;
+
   useFocusedListenersChildrenAdapter({
     navigation,
     focusedListeners: childListeners.focus,
@@ -501,6 +686,12 @@ export default function useNavigationBuilder<
     getStateListeners: keyedListeners.getState,
   });
 
+  useOnDescendEvent({
+    getState,
+    emitter,
+    descendEventListeners: keyedListeners.descendEvent,
+  });
+
   const descriptors = useDescriptors<State, ScreenOptions, EventMap>({
     state,
     screens,
@@ -97,6 +97,10 @@ export default function useNavigationCache<
           ...helpers,
           ...emitter.create(route.key),
           dispatch,
+          batch: (callback: (() => void) | NavigationAction[]) =>
+            typeof callback === 'function'
+              ? navigation.batch(callback)
+              : dispatch(CommonActions.batch(callback)),
           setOptions: (options: object) =>
             setOptions((o) => ({
               ...o,
@@ -7,7 +7,10 @@ import {
   Router,
 } from '@react-navigation/routers';
 import NavigationContext from './NavigationContext';
+import BatchUpdatesContext from './BatchUpdatesContext';
+import NavigationMiddlewareContext from './NavigationMiddlewareContext';
 import UnhandledActionContext from './UnhandledActionContext';
+import TrackActionContext from './TrackActionContext';
 import type { NavigationEventEmitter } from './useEventEmitter';
 import { NavigationHelpers, NavigationProp, PrivateValueStore } from './types';
 
@@ -23,6 +26,7 @@ type Options<State extends NavigationState, Action extends NavigationAction> = {
   getState: () => State;
   emitter: NavigationEventEmitter<any>;
   router: Router<State, Action>;
+  id: string | undefined;
 };
 
 /**
@@ -33,19 +37,72 @@ export default function useNavigationHelpers<
   State extends NavigationState,
   Action extends NavigationAction,
   EventMap extends Record<string, any>
->({ onAction, getState, emitter, router }: Options<State, Action>) {
+>({ onAction, getState, emitter, router, id }: Options<State, Action>) {
   const onUnhandledAction = React.useContext(UnhandledActionContext);
+  const trackAction = React.useContext(TrackActionContext);
+  const batchUpdates = React.useContext(BatchUpdatesContext);
+  const applyMiddleware = React.useContext(NavigationMiddlewareContext);
   const parentNavigationHelpers = React.useContext(NavigationContext);
 
   return React.useMemo(() => {
+    const batch = (callback: () => void, action?: NavigationAction) => {
+      if (batchUpdates) {
+        batchUpdates(callback, action);
+      } else {
+        callback();
+      }
+    };
+
     const dispatch = (op: Action | ((state: State) => Action)) => {
       const action = typeof op === 'function' ? op(getState()) : op;
 
-      const handled = onAction(action);
+      if (action.type === 'BATCH') {
+        // Each action in the batch is dispatched individually, but the state is only committed once
+        const { actions } = action.payload as { actions: Action[] };
 
-      if (!handled) {
-        onUnhandledAction?.(action);
+        batch(
+          () =>
+            actions.forEach((it) =>
+              dispatch(
+                action.source && it.source === undefined
+                  ? { ...it, source: action.source }
+                  : it
+              )
+            ),
+          action
+        );
+        return;
       }
+
+      const handle = (action: NavigationAction) => {
+        const handled = trackAction
+          ? trackAction(action, () => onAction(action))
+          : onAction(action);
+
+        if (!handled) {
+          onUnhandledAction?.(action);
+        }
+      };
+
+      if (applyMiddleware === undefined) {
+        handle(action);
+        return;
+      }
+
+      // Middlewares see the key of the navigator which will receive the action first
+      // We remove it again before handling so that the action can still bubble up if not handled
+      const { key } = getState();
+
+      applyMiddleware({ ...action, target: action.target ?? key }, (result) => {
+        if (action.target === undefined && result.target === key) {
+          // eslint-disable-next-line @typescript-eslint/no-unused-vars
+          const { target, ...rest } = result;
+
+          handle(rest);
+        } else {
+          handle(result);
+        }
+      });
     };
 
     const actions = {
@@ -66,6 +123,10 @@ export default function useNavigationHelpers<
       ...parentNavigationHelpers,
       ...helpers,
       dispatch,
+      batch: (callback: (() => void) | NavigationAction[]) =>
+        typeof callback === 'function'
+          ? batch(callback)
+          : dispatch(CommonActions.batch(callback) as Action),
       emit: emitter.emit,
       isFocused: parentNavigationHelpers
         ? parentNavigationHelpers.isFocused
@@ -82,16 +143,21 @@ export default function useNavigationHelpers<
           false
         );
       },
+      getId: () => id,
       dangerouslyGetParent: () => parentNavigationHelpers as any,
       dangerouslyGetState: getState,
     } as NavigationHelpers<ParamListBase, EventMap> &
       (NavigationProp<ParamListBase, string, any, any, any> | undefined);
   }, [
+    applyMiddleware,
+    batchUpdates,
     emitter.emit,
     getState,
+    id,
     onAction,
     onUnhandledAction,
     parentNavigationHelpers,
     router,
+    trackAction,
   ]);
 }
@@ -1,37 +1,181 @@
 import * as React from 'react';
-import type { NavigationState } from '@react-navigation/routers';
-import useNavigation from './useNavigation';
+import type { NavigationState, ParamListBase } from '@react-navigation/routers';
+import NavigationContext from './NavigationContext';
+import NavigationHelpersContext from './NavigationHelpersContext';
+import RootStateContext from './RootStateContext';
+import isArrayEqual from './isArrayEqual';
+import isRecordEqual from './isRecordEqual';
+import type { NavigationHelpers, NavigationProp } from './types';
 
 type Selector<T> = (state: NavigationState) => T;
 
+export type NavigationStateOptions<T> = {
+  /**
+   * Function to compare the previous and the next selected values.
+   * The component only re-renders when it returns `false`.
+   * Defaults to a shallow comparison of objects and arrays.
+   */
+  isEqual?: (a: T, b: T) => boolean;
+  /**
+   * Navigator to select the state from:
+   * - `root`: the state of the whole navigation tree in the container
+   * - `parent`: the navigator containing the parent screen
+   * - any other string: the closest navigator with the matching `id` prop
+   * Defaults to the navigator containing the current screen.
+   */
+  scope?: 'root' | 'parent' | string;
+};
+
+type NavigationAncestor = Pick<
+  NavigationHelpers<ParamListBase>,
+  'dangerouslyGetParent' | 'dangerouslyGetState'
+>;
+
+type StateSource = {
+  getState: () => NavigationState;
+  subscribe: (callback: () => void) => () => void;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value != null &&
+  typeof value === 'object' &&
+  Object.getPrototypeOf(value) === Object.prototype;
+
+const isShallowEqual = (a: unknown, b: unknown) => {
+  if (Object.is(a, b)) {
+    return true;
+  }
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return isArrayEqual(a, b);
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    return isRecordEqual(a, b);
+  }
+
+  return false;
+};
+
+const MISSING_NAVIGATION_ERROR =
+  "Couldn't find a navigation object. Is your component inside a screen in a navigator?";
+
 /**
  * Hook to get a value from the current navigation state using a selector.
  *
  * @param selector Selector function to get a value from the state.
+ * @param options Options to compare the selected values and to choose the navigator to select from.
  */
-export default function useNavigationState<T>(selector: Selector<T>): T {
-  const navigation = useNavigation();
+export default function useNavigationState<T>(
+  selector: Selector<T>,
+  options?: NavigationStateOptions<T>
+): T {
+  const navigation = React.useContext(NavigationContext);
+  const navigationHelpers = React.useContext(NavigationHelpersContext);
+  const container = React.useContext(RootStateContext);
+
+  const scope = options?.scope;
+  const isEqual = options?.isEqual ?? isShallowEqual;
+
+  const source = React.useMemo((): StateSource => {
+    if (scope === 'root') {
+      // Navigators can render components such as tab bars outside of screens
+      const current: NavigationAncestor | undefined =
+        navigation ?? navigationHelpers;
+
+      if (container === undefined || current === undefined) {
+        throw new Error(
+          "Couldn't find the navigation state. Is your component inside a navigator?"
+        );
+      }
+
+      let root = current;
+      let parent = root.dangerouslyGetParent<NavigationAncestor | undefined>();
 
-  // We don't care about the state value, we run the selector again at the end
-  // The state is only to make sure that there's a re-render when we have a new value
-  const [, setResult] = React.useState(() =>
-    selector(navigation.dangerouslyGetState())
-  );
+      while (parent !== undefined) {
+        root = parent;
+        parent = root.dangerouslyGetParent();
+      }
 
-  // We store the selector in a ref to avoid re-subscribing listeners every render
+      return {
+        // The state of the root navigator is used until the container has the state of the whole tree
+        getState: () => container.getRootState() ?? root.dangerouslyGetState(),
+        subscribe: (callback) => container.addListener('state', callback),
+      };
+    }
+
+    if (navigation === undefined) {
+      throw new Error(MISSING_NAVIGATION_ERROR);
+    }
+
+    let target: NavigationProp<ParamListBase> | undefined = navigation;
+
+    if (scope === 'parent') {
+      target = navigation.dangerouslyGetParent();
+
+      if (target === undefined) {
+        throw new Error(
+          "Couldn't find a parent navigator. Is your component inside a nested navigator?"
+        );
+      }
+    } else if (scope !== undefined) {
+      while (target !== undefined && target.getId() !== scope) {
+        target = target.dangerouslyGetParent();
+      }
+
+      if (target === undefined) {
+        throw new Error(
+          `Couldn't find a navigator with the ID '${scope}'. Is your component inside it?`
+        );
+      }
+    }
+
+    const result = target;
+
+    return {
+      getState: () => result.dangerouslyGetState(),
+      subscribe: (callback) => result.addListener('state', callback),
+    };
+  }, [container, navigation, navigationHelpers, scope]);
+
+  const [, forceUpdate] = React.useReducer((count: number) => count + 1, 0);
+
+  const next = selector(source.getState());
+
+  // We keep the previous value if it's equal, so that the result can be used in dependency arrays
+  const valueRef = React.useRef<{ value: T }>();
+  const value =
+    valueRef.current !== undefined && isEqual(valueRef.current.value, next)
+      ? valueRef.current.value
+      : next;
+
+  // We store the selector and the value in refs to avoid re-subscribing listeners every render
   const selectorRef = React.useRef(selector);
+  const isEqualRef = React.useRef(isEqual);
 
   React.useEffect(() => {
+    valueRef.current = { value };
     selectorRef.current = selector;
+    isEqualRef.current = isEqual;
   });
 
   React.useEffect(() => {
-    const unsubscribe = navigation.addListener('state', (e) => {
-      setResult(selectorRef.current(e.data.state));
-    });
+    const update = () => {
+      const result = selectorRef.current(source.getState());
+
+      if (
+        valueRef.current === undefined ||
+        !isEqualRef.current(valueRef.current.value, result)
+      ) {
+        forceUpdate();
+      }
+    };
+
+    // The state may have changed before we subscribed
+    update();
 
-    return unsubscribe;
-  }, [navigation]);
+    return source.subscribe(update);
+  }, [source]);
 
-  return selector(navigation.dangerouslyGetState());
+  return value;
 }
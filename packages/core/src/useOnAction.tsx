@@ -3,16 +3,78 @@ import type {
   NavigationAction,
   NavigationState,
   PartialState,
+  Route,
   Router,
   RouterConfigOptions,
 } from '@react-navigation/routers';
 import NavigationBuilderContext, {
   ChildActionListener,
   ChildBeforeRemoveListener,
+  ChildDeactivateGuardsListener,
 } from './NavigationBuilderContext';
+import NavigationRouteContext from './NavigationRouteContext';
 import useOnPreventRemove, { shouldPreventRemove } from './useOnPreventRemove';
 import type { NavigationEventEmitter } from './useEventEmitter';
-import type { EventMapCore } from './types';
+import type { EventMapCore, NavigationGuardResult } from './types';
+
+export type RouteGuard = (
+  route: Route<string>,
+  state: NavigationState
+) => NavigationGuardResult | Promise<NavigationGuardResult>;
+
+export type RouteGuardList = Record<
+  string,
+  { canActivate?: RouteGuard; canDeactivate?: RouteGuard }
+>;
+
+export type GuardCheck = {
+  type: 'canActivate' | 'canDeactivate';
+  route: Route<string>;
+  state: NavigationState;
+  guard: RouteGuard;
+};
+
+type GuardOutcome =
+  | { result: true }
+  | { result: false | NavigationAction; check: GuardCheck };
+
+/**
+ * Run the guards in order until one of them doesn't allow the navigation.
+ * The outcome is returned synchronously unless one of the guards returns a promise.
+ */
+const resolveGuards = (
+  checks: GuardCheck[]
+): GuardOutcome | Promise<GuardOutcome> => {
+  for (let i = 0; i < checks.length; i++) {
+    const check = checks[i];
+
+    let result;
+
+    try {
+      result = check.guard(check.route, check.state);
+    } catch (e) {
+      // A guard which throws denies the navigation, same as a rejected promise
+      return { result: false, check };
+    }
+
+    if (result instanceof Promise) {
+      return result.then(
+        (result) =>
+          result === true
+            ? resolveGuards(checks.slice(i + 1))
+            : { result, check },
+        // A guard which fails, e.g. due to a network error, denies the navigation
+        () => ({ result: false, check })
+      );
+    }
+
+    if (result !== true) {
+      return { result, check };
+    }
+  }
+
+  return { result: true };
+};
 
 type Options = {
   router: Router<NavigationState, NavigationAction>;
@@ -21,10 +83,18 @@ type Options = {
   setState: (state: NavigationState | PartialState<NavigationState>) => void;
   actionListeners: ChildActionListener[];
   beforeRemoveListeners: Record<string, ChildBeforeRemoveListener | undefined>;
+  deactivateGuardsListeners: Record<
+    string,
+    ChildDeactivateGuardsListener | undefined
+  >;
+  routeGuardList: RouteGuardList;
   routerConfigOptions: RouterConfigOptions;
   emitter: NavigationEventEmitter<EventMapCore<any>>;
+  dispatch: (action: NavigationAction) => void;
 };
 
+const GUARDS_PASSED = Symbol('GUARDS_PASSED');
+
 /**
  * Hook to handle actions for a navigator, including state updates and bubbling.
  *
@@ -41,24 +111,84 @@ export default function useOnAction({
   key,
   actionListeners,
   beforeRemoveListeners,
+  deactivateGuardsListeners,
+  routeGuardList,
   routerConfigOptions,
   emitter,
+  dispatch,
 }: Options) {
   const {
     onAction: onActionParent,
     onRouteFocus: onRouteFocusParent,
     addListener: addListenerParent,
+    addKeyedListener: addKeyedListenerParent,
     onDispatchAction,
   } = React.useContext(NavigationBuilderContext);
+  const route = React.useContext(NavigationRouteContext);
+  const routeKey = route?.key;
 
   const routerConfigOptionsRef = React.useRef<RouterConfigOptions>(
     routerConfigOptions
   );
 
+  const routeGuardListRef = React.useRef<RouteGuardList>(routeGuardList);
+
   React.useEffect(() => {
     routerConfigOptionsRef.current = routerConfigOptions;
+    routeGuardListRef.current = routeGuardList;
   });
 
+  const getDeactivateGuards = React.useCallback(
+    (state: NavigationState): GuardCheck[] => {
+      const route = state.routes[state.index];
+
+      // The focused screens in nested navigators lose focus along with this route, so they're checked first
+      const checks = deactivateGuardsListeners[route.key]?.() ?? [];
+      const { canDeactivate } = routeGuardListRef.current[route.name] ?? {};
+
+      if (canDeactivate) {
+        checks.push({
+          type: 'canDeactivate',
+          route,
+          state,
+          guard: canDeactivate,
+        });
+      }
+
+      return checks;
+    },
+    [deactivateGuardsListeners]
+  );
+
+  const getGuardChecks = React.useCallback(
+    (
+      state: NavigationState,
+      result: NavigationState | PartialState<NavigationState>
+    ) => {
+      const previous = state.routes[state.index];
+      const next = result.routes[result.index ?? result.routes.length - 1];
+
+      if (next === undefined || next.key === previous.key) {
+        return [];
+      }
+
+      const checks = getDeactivateGuards(state);
+      const { canActivate } = routeGuardListRef.current[next.name] ?? {};
+
+      if (canActivate) {
+        checks.push({
+          type: 'canActivate',
+          route: next as Route<string>,
+          state,
+          guard: canActivate,
+        });
+      }
+
+      return checks;
+    },
+    [getDeactivateGuards]
+  );
+
   const onAction = React.useCallback(
     (
       action: NavigationAction,
@@ -87,7 +217,51 @@ export default function useOnAction({
           result === null && action.target === state.key ? state : result;
 
         if (result !== null) {
-          onDispatchAction(action, state === result);
+          // @ts-expect-error: this property is added to actions which were allowed by async guards
+          if (state !== result && !action[GUARDS_PASSED]) {
+            const checks = getGuardChecks(state, result);
+
+            if (checks.length) {
+              const handleOutcome = (outcome: GuardOutcome) => {
+                if (outcome.result === true) {
+                  // The action is dispatched again so that middleware and action tracking see it
+                  const allowedAction = { ...action, [GUARDS_PASSED]: true };
+
+                  dispatch(allowedAction);
+                } else if (outcome.result === false) {
+                  const { index, routes } = getState();
+
+                  emitter.emit({
+                    type: 'navigationDenied',
+                    target: routes[index].key,
+                    data: {
+                      action,
+                      route: outcome.check.route,
+                      guard: outcome.check.type,
+                    },
+                  });
+                } else {
+                  // The guard returned an action to redirect to
+                  dispatch(outcome.result);
+                }
+              };
+
+              const outcome = resolveGuards(checks);
+
+              if (outcome instanceof Promise) {
+                // We can't wait for the guards here, so the action is handled again once they resolve
+                outcome.then(handleOutcome);
+                return true;
+              }
+
+              if (outcome.result !== true) {
+                handleOutcome(outcome);
+                return true;
+              }
+            }
+          }
+
+          onDispatchAction(action, state === result, state.key);
 
           if (state !== result) {
             const nextRouteKeys = (result.routes as any[]).map(
@@ -147,7 +321,9 @@ export default function useOnAction({
     [
       actionListeners,
       beforeRemoveListeners,
+      dispatch,
       emitter,
+      getGuardChecks,
       getState,
       key,
       onActionParent,
@@ -164,6 +340,14 @@ export default function useOnAction({
     beforeRemoveListeners,
   });
 
+  React.useEffect(() => {
+    if (routeKey) {
+      return addKeyedListenerParent?.('deactivateGuards', routeKey, () =>
+        getDeactivateGuards(getState())
+      );
+    }
+  }, [addKeyedListenerParent, getDeactivateGuards, getState, routeKey]);
+
   React.useEffect(() => addListenerParent?.('action', onAction), [
     addListenerParent,
     onAction,
@@ -0,0 +1,46 @@
+import * as React from 'react';
+import type { NavigationState } from '@react-navigation/routers';
+import NavigationBuilderContext, {
+  ChildDescendEventListener,
+} from './NavigationBuilderContext';
+import NavigationRouteContext from './NavigationRouteContext';
+import {
+  isPropagationStopped,
+  NavigationEventEmitter,
+} from './useEventEmitter';
+import type { EventMapCore } from './types';
+
+type Options = {
+  getState: () => NavigationState;
+  emitter: NavigationEventEmitter<EventMapCore<any>>;
+  descendEventListeners: Record<string, ChildDescendEventListener | undefined>;
+};
+
+/**
+ * Hook to deliver events which descend from the parent screen to the focused screen of this navigator.
+ * The event then continues to the navigators nested in the focused screen.
+ */
+export default function useOnDescendEvent({
+  getState,
+  emitter,
+  descendEventListeners,
+}: Options) {
+  const { addKeyedListener } = React.useContext(NavigationBuilderContext);
+  const route = React.useContext(NavigationRouteContext);
+  const routeKey = route?.key;
+
+  React.useEffect(() => {
+    if (routeKey) {
+      return addKeyedListener?.('descendEvent', routeKey, (event) => {
+        const state = getState();
+        const focusedKey = state.routes[state.index].key;
+
+        emitter.notify(event, focusedKey);
+
+        if (!isPropagationStopped(event)) {
+          descendEventListeners[focusedKey]?.(event);
+        }
+      });
+    }
+  }, [addKeyedListener, descendEventListeners, emitter, getState, routeKey]);
+}
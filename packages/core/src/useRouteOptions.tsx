@@ -0,0 +1,30 @@
+import * as React from 'react';
+import RouteOptionsContext from './RouteOptionsContext';
+
+/**
+ * Hook to access the options of the parent screen or of one of its ancestor screens.
+ *
+ * @param name Name of the ancestor route to get the options for. Defaults to the parent screen.
+ * @returns Options of the closest route with the name, or `undefined` if there is no such route.
+ */
+export default function useRouteOptions<ScreenOptions extends {} = object>(
+  name?: string
+): ScreenOptions | undefined {
+  const context = React.useContext(RouteOptionsContext);
+
+  if (context === undefined) {
+    throw new Error(
+      "Couldn't find the options of a route. Is your component inside a screen in a navigator?"
+    );
+  }
+
+  const { routes } = context;
+
+  for (let i = routes.length - 1; i >= 0; i--) {
+    if (name === undefined || routes[i].route.name === name) {
+      return routes[i].options as ScreenOptions;
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,15 @@
+import useFocusEffect from './useFocusEffect';
+
+type EffectCallback = () => undefined | void | (() => void);
+
+/**
+ * Hook to run an effect in a focused screen after its transition animation has finished.
+ * This can be used to defer heavy work which would otherwise make the animation janky.
+ * The effect is cleaned up when the screen starts animating out or loses focus.
+ * The passed callback should be wrapped in `React.useCallback` to avoid running the effect too often.
+ *
+ * @param callback Memoized callback containing the effect, should optionally return a cleanup function.
+ */
+export default function useTransitionEffect(effect: EffectCallback) {
+  useFocusEffect(effect, { waitForTransition: true });
+}
@@ -0,0 +1,93 @@
+import type { InitialState } from '@react-navigation/routers';
+import checkSerializable from './checkSerializable';
+import type {
+  NavigatorTree,
+  StateValidationError,
+  StateValidationReport,
+} from './types';
+
+const validate = (
+  state: InitialState,
+  tree: NavigatorTree,
+  path: (string | number)[],
+  errors: StateValidationError[]
+) => {
+  if (state.type !== undefined && state.type !== tree.type) {
+    // The navigator will discard the whole state, so we don't need to check the routes
+    errors.push({
+      type: 'type_mismatch',
+      path: [...path, 'type'],
+      expected: tree.type,
+      received: state.type,
+    });
+
+    return;
+  }
+
+  const { index } = state;
+
+  if (
+    index !== undefined &&
+    !(Number.isInteger(index) && index >= 0 && index < state.routes.length)
+  ) {
+    errors.push({
+      type: 'invalid_index',
+      path: [...path, 'index'],
+      index,
+      length: state.routes.length,
+    });
+  }
+
+  state.routes.forEach((route, i) => {
+    const location = [...path, 'routes', i];
+
+    if (!tree.routeNames.includes(route.name)) {
+      errors.push({
+        type: 'unknown_route',
+        path: [...location, 'name'],
+        name: route.name,
+        routeNames: tree.routeNames,
+      });
+
+      return;
+    }
+
+    if (route.params !== undefined) {
+      const result = checkSerializable(route.params);
+
+      if (!result.serializable) {
+        errors.push({
+          type: 'non_serializable_params',
+          path: [...location, 'params'],
+          location: result.location,
+          reason: result.reason,
+        });
+      }
+    }
+
+    const navigator = tree.navigators?.[route.name];
+
+    if (route.state !== undefined && navigator !== undefined) {
+      validate(route.state, navigator, [...location, 'state'], errors);
+    }
+  });
+};
+
+/**
+ * Validate a navigation state against the configuration of the navigators.
+ * Nested states are only validated if the tree contains the navigator for the screen.
+ *
+ * @param state Navigation state to validate, e.g. a persisted state or a state from a deep link.
+ * @param tree Description of the navigator which the state belongs to.
+ * @returns Report with the list of problems found in the state.
+ */
+export default function validateState(
+  state: InitialState,
+  tree: NavigatorTree
+): StateValidationReport {
+  const errors: StateValidationError[] = [];
+
+  validate(state, tree, [], errors);
+
+  return { valid: errors.length === 0, errors };
+}
@@ -2,6 +2,7 @@ import * as React from 'react';
 import {
   createNavigatorFactory,
   useNavigationBuilder,
+  useFocusTransitionEvents,
   DefaultNavigatorOptions,
   DrawerNavigationState,
   DrawerRouterOptions,
@@ -20,9 +21,12 @@ type Props = DefaultNavigatorOptions<DrawerNavigationOptions> &
   DrawerNavigationConfig;
 
 function DrawerNavigator({
+  id,
   initialRouteName,
+  mergeParams,
   openByDefault,
   backBehavior,
+  historyLimit,
   children,
   screenOptions,
   ...rest
@@ -33,13 +37,18 @@ function DrawerNavigator({
     DrawerNavigationOptions,
     DrawerNavigationEventMap
   >(DrawerRouter, {
+    id,
     initialRouteName,
+    mergeParams,
     openByDefault,
     backBehavior,
+    historyLimit,
     children,
     screenOptions,
   });
 
+  useFocusTransitionEvents(state, navigation);
+
   return (
     <DrawerView
       {...rest}
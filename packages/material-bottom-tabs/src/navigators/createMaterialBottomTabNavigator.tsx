@@ -1,6 +1,7 @@
 import * as React from 'react';
 import {
   useNavigationBuilder,
+  useFocusTransitionEvents,
   createNavigatorFactory,
   DefaultNavigatorOptions,
   TabRouter,
@@ -20,8 +21,11 @@ type Props = DefaultNavigatorOptions<MaterialBottomTabNavigationOptions> &
   MaterialBottomTabNavigationConfig;
 
 function MaterialBottomTabNavigator({
+  id,
   initialRouteName,
+  mergeParams,
   backBehavior,
+  historyLimit,
   children,
   screenOptions,
   ...rest
@@ -32,12 +36,17 @@ function MaterialBottomTabNavigator({
     MaterialBottomTabNavigationOptions,
     MaterialBottomTabNavigationEventMap
   >(TabRouter, {
+    id,
     initialRouteName,
+    mergeParams,
     backBehavior,
+    historyLimit,
     children,
     screenOptions,
   });
 
+  useFocusTransitionEvents(state, navigation);
+
   return (
     <MaterialBottomTabView
       {...rest}
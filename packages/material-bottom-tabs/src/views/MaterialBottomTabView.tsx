@@ -174,6 +174,8 @@ function MaterialBottomTabViewInner({
           type: 'tabPress',
           target: route.key,
           canPreventDefault: true,
+          // Nested navigators also receive it, e.g. so that nested stacks can reset
+          descend: true,
         });
 
         if (event.defaultPrevented) {
@@ -1,12 +1,29 @@
 import * as React from 'react';
 import { View, Text, Button } from 'react-native';
-import { render, fireEvent } from '@testing-library/react-native';
+import { render, fireEvent, act } from '@testing-library/react-native';
 import { NavigationContainer, ParamListBase } from '@react-navigation/native';
 import {
   createMaterialTopTabNavigator,
   MaterialTopTabScreenProps,
 } from '../index';
 
+let mockSettle: ((args: readonly number[]) => void) | undefined;
+
+jest.mock('react-native-reanimated', () => {
+  const Reanimated = require('react-native-reanimated/mock');
+
+  // Keep the callback passed to `call` so that tests can simulate the pager settling on an index
+  Reanimated.default.useCode = (factory: () => void) => factory();
+  Reanimated.default.call = (
+    _: unknown,
+    callback: (args: readonly number[]) => void
+  ) => {
+    mockSettle = callback;
+  };
+
+  return Reanimated;
+});
+
 it('renders a material bottom tab navigator with screens', async () => {
   const Test = ({
     route,
@@ -37,3 +54,138 @@ it('renders a material bottom tab navigator with screens', async () => {
 
   expect(queryByText('Screen B')).not.toBeNull();
 });
+
+it('emits transition start but waits for the pager to end the transition', async () => {
+  const Test = ({
+    route,
+    navigation,
+  }: MaterialTopTabScreenProps<ParamListBase>) => (
+    <View>
+      <Text>Screen {route.name}</Text>
+      <Button onPress={() => navigation.navigate('B')} title="Go to B" />
+    </View>
+  );
+
+  const Tab = createMaterialTopTabNavigator();
+
+  const events: string[] = [];
+
+  const listeners = ({ route }: { route: { name: string } }) => ({
+    transitionStart: (e: any) =>
+      events.push(`transitionStart: ${route.name}, ${e.data.closing}`),
+    transitionEnd: (e: any) =>
+      events.push(`transitionEnd: ${route.name}, ${e.data.closing}`),
+  });
+
+  const { findByText } = render(
+    <NavigationContainer>
+      <Tab.Navigator>
+        <Tab.Screen name="A" component={Test} listeners={listeners} />
+        <Tab.Screen name="B" component={Test} listeners={listeners} />
+      </Tab.Navigator>
+    </NavigationContainer>
+  );
+
+  fireEvent(await findByText('Go to B'), 'press');
+
+  // The pager hasn't settled yet, so the transition is still in progress
+  expect(events).toEqual([
+    'transitionStart: A, true',
+    'transitionStart: B, false',
+  ]);
+});
+
+it('emits transition end for both routes when the pager settles', async () => {
+  const Test = ({
+    route,
+    navigation,
+  }: MaterialTopTabScreenProps<ParamListBase>) => (
+    <View>
+      <Text>Screen {route.name}</Text>
+      <Button onPress={() => navigation.navigate('B')} title="Go to B" />
+    </View>
+  );
+
+  const Tab = createMaterialTopTabNavigator();
+
+  const events: string[] = [];
+
+  const listeners = ({ route }: { route: { name: string } }) => ({
+    transitionStart: (e: any) =>
+      events.push(`transitionStart: ${route.name}, ${e.data.closing}`),
+    transitionEnd: (e: any) =>
+      events.push(`transitionEnd: ${route.name}, ${e.data.closing}`),
+  });
+
+  const { findByText } = render(
+    <NavigationContainer>
+      <Tab.Navigator>
+        <Tab.Screen name="A" component={Test} listeners={listeners} />
+        <Tab.Screen name="B" component={Test} listeners={listeners} />
+      </Tab.Navigator>
+    </NavigationContainer>
+  );
+
+  fireEvent(await findByText('Go to B'), 'press');
+
+  act(() => mockSettle?.([-1]));
+
+  expect(events).toEqual([
+    'transitionStart: A, true',
+    'transitionStart: B, false',
+  ]);
+
+  act(() => mockSettle?.([1]));
+
+  expect(events).toEqual([
+    'transitionStart: A, true',
+    'transitionStart: B, false',
+    'transitionEnd: A, true',
+    'transitionEnd: B, false',
+  ]);
+});
+
+it('emits transition end right away if the pager settled before the state update', async () => {
+  const Test = ({
+    route,
+    navigation,
+  }: MaterialTopTabScreenProps<ParamListBase>) => (
+    <View>
+      <Text>Screen {route.name}</Text>
+      <Button onPress={() => navigation.navigate('B')} title="Go to B" />
+    </View>
+  );
+
+  const Tab = createMaterialTopTabNavigator();
+
+  const events: string[] = [];
+
+  const listeners = ({ route }: { route: { name: string } }) => ({
+    transitionStart: (e: any) =>
+      events.push(`transitionStart: ${route.name}, ${e.data.closing}`),
+    transitionEnd: (e: any) =>
+      events.push(`transitionEnd: ${route.name}, ${e.data.closing}`),
+  });
+
+  const { findByText } = render(
+    <NavigationContainer>
+      <Tab.Navigator>
+        <Tab.Screen name="A" component={Test} listeners={listeners} />
+        <Tab.Screen name="B" component={Test} listeners={listeners} />
+      </Tab.Navigator>
+    </NavigationContainer>
+  );
+
+  act(() => mockSettle?.([1]));
+
+  expect(events).toEqual([]);
+
+  fireEvent(await findByText('Go to B'), 'press');
+
+  expect(events).toEqual([
+    'transitionStart: A, true',
+    'transitionStart: B, false',
+    'transitionEnd: A, true',
+    'transitionEnd: B, false',
+  ]);
+});
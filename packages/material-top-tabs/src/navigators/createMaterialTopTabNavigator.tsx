@@ -19,8 +19,11 @@ type Props = DefaultNavigatorOptions<MaterialTopTabNavigationOptions> &
   MaterialTopTabNavigationConfig;
 
 function MaterialTopTabNavigator({
+  id,
   initialRouteName,
+  mergeParams,
   backBehavior,
+  historyLimit,
   children,
   screenOptions,
   ...rest
@@ -31,8 +34,11 @@ function MaterialTopTabNavigator({
     MaterialTopTabNavigationOptions,
     MaterialTopTabNavigationEventMap
   >(TabRouter, {
+    id,
     initialRouteName,
+    mergeParams,
     backBehavior,
+    historyLimit,
     children,
     screenOptions,
   });
@@ -13,6 +13,7 @@ import type {
   TabNavigationState,
   TabActionHelpers,
   RouteProp,
+  EventMapCore,
 } from '@react-navigation/native';
 
 export type MaterialTopTabNavigationEventMap = {
@@ -36,7 +37,7 @@ export type MaterialTopTabNavigationEventMap = {
 
 export type MaterialTopTabNavigationHelpers = NavigationHelpers<
   ParamListBase,
-  MaterialTopTabNavigationEventMap
+  MaterialTopTabNavigationEventMap & EventMapCore<TabNavigationState>
 >;
 
 export type MaterialTopTabNavigationProp<
@@ -44,6 +44,8 @@ export default function TabBarTop(props: MaterialTopTabBarProps) {
           type: 'tabPress',
           target: route.key,
           canPreventDefault: true,
+          // Nested navigators also receive it, e.g. so that nested stacks can reset
+          descend: true,
         });
 
         if (event.defaultPrevented) {
@@ -1,5 +1,6 @@
 import * as React from 'react';
 import { TabView, SceneRendererProps } from 'react-native-tab-view';
+import Animated from 'react-native-reanimated';
 import {
   NavigationHelpersContext,
   TabNavigationState,
@@ -22,6 +23,41 @@ type Props = MaterialTopTabNavigationConfig & {
   tabBarPosition?: 'top' | 'bottom';
 };
 
+type Transition = {
+  index: number;
+  routes: { key: string; closing: boolean }[];
+};
+
+const { abs, call, cond, lessThan, onChange, round, sub } = Animated;
+
+// The position is calculated from the translation, so it may not be an exact integer
+const POSITION_EPSILON = 0.001;
+const UNSETTLED = -1;
+
+/**
+ * Component which calls `onSettledIndexChange` with the index the pager settles on after an animation or swipe.
+ * It's called with `UNSETTLED` when the pager starts moving.
+ */
+function SettledIndexListener({
+  position,
+  onSettledIndexChange,
+}: {
+  position: Animated.Node<number>;
+  onSettledIndexChange: (args: readonly number[]) => void;
+}) {
+  Animated.useCode(() => {
+    const settledIndex = cond(
+      lessThan(abs(sub(position, round(position))), POSITION_EPSILON),
+      round(position),
+      UNSETTLED
+    );
+
+    return onChange(settledIndex, call([settledIndex], onSettledIndexChange));
+  }, [position, onSettledIndexChange]);
+
+  return null;
+}
+
 export default function MaterialTopTabView({
   pager,
   lazyPlaceholder,
@@ -35,14 +71,96 @@ export default function MaterialTopTabView({
 }: Props) {
   const { colors } = useTheme();
 
+  const focusedKey = state.routes[state.index].key;
+
+  const navigationRef = React.useRef(navigation);
+  const previousFocusedKeyRef = React.useRef(focusedKey);
+  const transitionRef = React.useRef<Transition | undefined>();
+  const settledIndexRef = React.useRef<number | undefined>(state.index);
+
+  navigationRef.current = navigation;
+
+  const endTransition = React.useCallback(() => {
+    const transition = transitionRef.current;
+
+    if (transition === undefined) {
+      return;
+    }
+
+    transitionRef.current = undefined;
+
+    transition.routes.forEach(({ key, closing }) =>
+      navigationRef.current.emit({
+        type: 'transitionEnd',
+        data: { closing },
+        target: key,
+      })
+    );
+  }, []);
+
+  const handleSettledIndexChange = React.useCallback(
+    ([index]: readonly number[]) => {
+      settledIndexRef.current = index === UNSETTLED ? undefined : index;
+
+      if (
+        settledIndexRef.current !== undefined &&
+        transitionRef.current?.index === settledIndexRef.current
+      ) {
+        endTransition();
+      }
+    },
+    [endTransition]
+  );
+
+  React.useEffect(() => {
+    const previousFocusedKey = previousFocusedKeyRef.current;
+
+    previousFocusedKeyRef.current = focusedKey;
+
+    if (previousFocusedKey === focusedKey) {
+      return;
+    }
+
+    // If the focus changed again before the pager settled, the previous transition was interrupted
+    endTransition();
+
+    const routes = [
+      { key: previousFocusedKey, closing: true },
+      { key: focusedKey, closing: false },
+    ];
+
+    routes.forEach(({ key, closing }) =>
+      navigation.emit({
+        type: 'transitionStart',
+        data: { closing },
+        target: key,
+      })
+    );
+
+    transitionRef.current = { index: state.index, routes };
+
+    // The pager may have settled before the state update, e.g. when it doesn't have a layout yet
+    if (settledIndexRef.current === state.index) {
+      endTransition();
+    }
+  }, [endTransition, focusedKey, navigation, state.index]);
+
   const renderTabBar = (props: SceneRendererProps) => {
-    return tabBar({
-      ...tabBarOptions,
-      ...props,
-      state: state,
-      navigation: navigation,
-      descriptors: descriptors,
-    });
+    return (
+      <React.Fragment>
+        <SettledIndexListener
+          position={props.position}
+          onSettledIndexChange={handleSettledIndexChange}
+        />
+        {tabBar({
+          ...tabBarOptions,
+          ...props,
+          state: state,
+          navigation: navigation,
+          descriptors: descriptors,
+        })}
+      </React.Fragment>
+    );
   };
 
   return (
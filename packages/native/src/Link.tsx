@@ -1,10 +1,11 @@
 import * as React from 'react';
 import { Text, TextProps, GestureResponderEvent, Platform } from 'react-native';
-import type { NavigationAction } from '@react-navigation/core';
+import type { NavigationAction, RootParamList } from '@react-navigation/core';
 import useLinkProps from './useLinkProps';
+import type { To } from './types';
 
-type Props = {
-  to: string;
+type Props<ParamList extends {}> = {
+  to: To<ParamList>;
   action?: NavigationAction;
   target?: string;
   onPress?: (
@@ -16,12 +17,16 @@ type Props = {
  * Component to render link to another screen using a path.
  * Uses an anchor tag on the web.
  *
- * @param props.to Absolute path to screen (e.g. `/feeds/hot`).
+ * @param props.to Absolute path to screen (e.g. `/feeds/hot`), or an object with the `screen` name and `params`.
  * @param props.action Optional action to use for in-page navigation. By default, the path is parsed to an action based on linking config.
  * @param props.children Child elements to render the content.
  */
-export default function Link({ to, action, ...rest }: Props) {
-  const props = useLinkProps({ to, action });
+export default function Link<ParamList extends {} = RootParamList>({
+  to,
+  action,
+  ...rest
+}: Props<ParamList>) {
+  const props = useLinkProps<ParamList>({ to, action });
 
   const onPress = (
     e: React.MouseEvent<HTMLAnchorElement, MouseEvent> | GestureResponderEvent
@@ -3,6 +3,7 @@ import {
   BaseNavigationContainer,
   NavigationContainerProps,
   NavigationContainerRef,
+  NavigationState,
 } from '@react-navigation/core';
 import ThemeProvider from './theming/ThemeProvider';
 import DefaultTheme from './theming/DefaultTheme';
@@ -11,11 +12,18 @@ import useThenable from './useThenable';
 import useLinking from './useLinking';
 import useDocumentTitle from './useDocumentTitle';
 import useBackButton from './useBackButton';
-import type { Theme, LinkingOptions, DocumentTitleOptions } from './types';
+import usePersistence from './usePersistence';
+import type {
+  Theme,
+  LinkingOptions,
+  DocumentTitleOptions,
+  PersistenceOptions,
+} from './types';
 
 type Props = NavigationContainerProps & {
   theme?: Theme;
   linking?: LinkingOptions;
+  persistence?: PersistenceOptions;
   fallback?: React.ReactNode;
   documentTitle?: DocumentTitleOptions;
   onReady?: () => void;
@@ -30,7 +38,8 @@ type Props = NavigationContainerProps & {
  * @param props.onStateChange Callback which is called with the latest navigation state when it changes.
  * @param props.theme Theme object for the navigators.
  * @param props.linking Options for deep linking. Deep link handling is enabled when this prop is provided, unless `linking.enabled` is `false`.
- * @param props.fallback Fallback component to render until we have finished getting initial state when linking is enabled. Defaults to `null`.
+ * @param props.persistence Options to save the navigation state to a storage and restore it on the next launch. Saved states are ignored if `initialState` is specified or there's a deep link, and navigators start from their initial state instead of rendering the parts which contain screens they don't have.
+ * @param props.fallback Fallback component to render until we have finished getting initial state when linking or persistence is enabled. Defaults to `null`.
  * @param props.documentTitle Options to configure the document title on Web. Updating document title is handled by default unless `documentTitle.enabled` is `false`.
  * @param props.children Child elements to render the content.
  * @param props.ref Ref object which refers to the navigation object containing helper methods.
@@ -39,9 +48,11 @@ const NavigationContainer = React.forwardRef(function NavigationContainer(
   {
     theme = DefaultTheme,
     linking,
+    persistence,
     fallback = null,
     documentTitle,
     onReady,
+    onStateChange,
     ...rest
   }: Props,
   ref?: React.Ref<NavigationContainerRef | null>
@@ -59,13 +70,26 @@ const NavigationContainer = React.forwardRef(function NavigationContainer(
     ...linking,
   });
 
-  const [isResolved, initialState] = useThenable(getInitialState);
+  const {
+    getInitialState: getPersistedState,
+    onStateChange: onPersistStateChange,
+  } = usePersistence(persistence);
+
+  const [isResolved, linkingState] = useThenable(getInitialState);
+  const [isPersistenceResolved, persistedState] = useThenable(
+    getPersistedState
+  );
+
+  const initialState = rest.initialState ?? linkingState ?? persistedState;
 
   React.useImperativeHandle(ref, () => refContainer.current);
 
   const linkingContext = React.useMemo(() => ({ options: linking }), [linking]);
 
-  const isReady = rest.initialState != null || !isLinkingEnabled || isResolved;
+  const isReady =
+    rest.initialState != null ||
+    ((!isLinkingEnabled || isResolved) &&
+      (linkingState != null || isPersistenceResolved));
 
   const onReadyRef = React.useRef(onReady);
 
@@ -79,6 +103,20 @@ const NavigationContainer = React.forwardRef(function NavigationContainer(
     }
   }, [isReady]);
 
+  const onStateChangeRef = React.useRef(onStateChange);
+
+  React.useEffect(() => {
+    onStateChangeRef.current = onStateChange;
+  });
+
+  const handleStateChange = React.useCallback(
+    (state: NavigationState | undefined) => {
+      onPersistStateChange(state);
+      onStateChangeRef.current?.(state);
+    },
+    [onPersistStateChange]
+  );
+
   if (!isReady) {
     // This is temporary until we have Suspense for data-fetching
     // Then the fallback will be handled by a parent `Suspense` component
@@ -90,9 +128,12 @@ const NavigationContainer = React.forwardRef(function NavigationContainer(
       <ThemeProvider value={theme}>
         <BaseNavigationContainer
           {...rest}
-          initialState={
-            rest.initialState == null ? initialState : rest.initialState
+          initialState={initialState}
+          // Saved states may be outdated if the screens changed since they were saved
+          discardInvalidInitialState={
+            initialState !== undefined && initialState === persistedState
           }
+          onStateChange={handleStateChange}
           ref={refContainer}
         />
       </ThemeProvider>
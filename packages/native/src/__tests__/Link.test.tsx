@@ -0,0 +1,76 @@
+import * as React from 'react';
+import { fireEvent, render } from '@testing-library/react-native';
+import {
+  BaseNavigationContainer,
+  NavigationContainerRef,
+  StackRouter,
+  createNavigatorFactory,
+  useNavigationBuilder,
+} from '@react-navigation/core';
+import Link from '../Link';
+import LinkingContext from '../LinkingContext';
+
+it('navigates to the screen specified with an object', () => {
+  const createStackNavigator = createNavigatorFactory((props: any) => {
+    const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  });
+
+  const Stack = createStackNavigator();
+
+  const linking = {
+    prefixes: [],
+    config: {
+      screens: {
+        Home: {
+          path: 'home',
+          screens: {
+            Feed: 'feed',
+            Profile: 'user/:id',
+          },
+        },
+      },
+    },
+  };
+
+  const ref = React.createRef<NavigationContainerRef>();
+
+  const root = render(
+    <LinkingContext.Provider value={{ options: linking }}>
+      <BaseNavigationContainer ref={ref}>
+        <Stack.Navigator>
+          <Stack.Screen name="Home">
+            {() => (
+              <Stack.Navigator>
+                <Stack.Screen name="Feed">
+                  {() => (
+                    <Link
+                      to={{
+                        screen: 'Home',
+                        params: { screen: 'Profile', params: { id: 'jane' } },
+                      }}
+                    >
+                      Profile
+                    </Link>
+                  )}
+                </Stack.Screen>
+                <Stack.Screen name="Profile">{() => null}</Stack.Screen>
+              </Stack.Navigator>
+            )}
+          </Stack.Screen>
+        </Stack.Navigator>
+      </BaseNavigationContainer>
+    </LinkingContext.Provider>
+  );
+
+  const link = root.getByText('Profile');
+
+  expect(link.props.href).toBe('/home/user/jane');
+
+  fireEvent.press(link);
+
+  expect(ref.current?.getCurrentRoute()).toEqual(
+    expect.objectContaining({ name: 'Profile', params: { id: 'jane' } })
+  );
+});
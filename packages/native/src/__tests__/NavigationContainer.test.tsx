@@ -149,3 +149,251 @@ it('integrates with the history API', () => {
 
   expect(window.location.pathname).toBe('/edit');
 });
+
+it('restores and saves the state with persistence', async () => {
+  jest.useFakeTimers();
+
+  const createStackNavigator = createNavigatorFactory((props: any) => {
+    const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  });
+
+  const Stack = createStackNavigator();
+
+  const items: Record<string, string> = {
+    NAVIGATION_STATE: JSON.stringify({
+      version: 1,
+      state: { routes: [{ name: 'Home' }, { name: 'Profile' }] },
+    }),
+  };
+
+  const storage = {
+    getItem: jest.fn((key: string) => Promise.resolve(items[key] ?? null)),
+    setItem: jest.fn((key: string, value: string) => {
+      items[key] = value;
+    }),
+  };
+
+  const navigation = React.createRef<NavigationContainerRef>();
+
+  const element = (
+    <NavigationContainer
+      ref={navigation}
+      persistence={{ storage, version: 2, migrate: (state) => state }}
+      fallback="Loading"
+    >
+      <Stack.Navigator>
+        <Stack.Screen name="Home">{() => 'Home'}</Stack.Screen>
+        <Stack.Screen name="Profile">{() => 'Profile'}</Stack.Screen>
+      </Stack.Navigator>
+    </NavigationContainer>
+  );
+
+  const root = render(element);
+
+  expect(root.toJSON()).toBe('Loading');
+
+  await act(async () => {
+    await Promise.resolve();
+  });
+
+  expect(root.toJSON()).toBe('Profile');
+  expect(storage.getItem).toHaveBeenCalledWith('NAVIGATION_STATE');
+
+  await act(async () => {
+    navigation.current?.navigate('Home');
+  });
+
+  expect(storage.setItem).toBeCalledTimes(1);
+  expect(JSON.parse(items.NAVIGATION_STATE)).toEqual({
+    version: 2,
+    state: expect.objectContaining({
+      index: 0,
+      routes: [expect.objectContaining({ name: 'Home' })],
+    }),
+  });
+
+  await act(async () => {
+    navigation.current?.navigate('Profile');
+    navigation.current?.goBack();
+  });
+
+  // Writes are throttled
+  expect(storage.setItem).toBeCalledTimes(1);
+
+  await act(async () => {
+    jest.runAllTimers();
+  });
+
+  expect(storage.setItem).toBeCalledTimes(2);
+  expect(JSON.parse(items.NAVIGATION_STATE).state.routes).toEqual([
+    expect.objectContaining({ name: 'Home' }),
+  ]);
+});
+
+it('discards saved states which are outdated', async () => {
+  const createStackNavigator = createNavigatorFactory((props: any) => {
+    const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  });
+
+  const Stack = createStackNavigator();
+
+  const createStorage = (value: object) => ({
+    getItem: () => Promise.resolve(JSON.stringify(value)),
+    setItem: () => {},
+  });
+
+  const element = (persistence: any) => (
+    <NavigationContainer persistence={persistence}>
+      <Stack.Navigator>
+        <Stack.Screen name="Home">{() => 'Home'}</Stack.Screen>
+        <Stack.Screen name="Profile">{() => 'Profile'}</Stack.Screen>
+      </Stack.Navigator>
+    </NavigationContainer>
+  );
+
+  const state = { routes: [{ name: 'Home' }, { name: 'Profile' }] };
+
+  const migrate = jest.fn(() => undefined);
+
+  const root = render(
+    element({
+      storage: createStorage({ version: 1, state }),
+      version: 3,
+      migrate,
+    })
+  );
+
+  await act(async () => {
+    await Promise.resolve();
+  });
+
+  expect(migrate).toHaveBeenCalledWith(state, 1);
+  expect(root.toJSON()).toBe('Home');
+
+  root.update(<React.Fragment />);
+
+  root.update(
+    element({
+      storage: createStorage({
+        version: 1,
+        state: { routes: [{ name: 'Profile' }, { name: 'Settings' }] },
+      }),
+    })
+  );
+
+  await act(async () => {
+    await Promise.resolve();
+  });
+
+  expect(root.toJSON()).toBe('Home');
+
+  root.update(<React.Fragment />);
+
+  root.update(
+    element({
+      storage: createStorage({ version: 1, state: { routes: 'Profile' } }),
+    })
+  );
+
+  await act(async () => {
+    await Promise.resolve();
+  });
+
+  expect(root.toJSON()).toBe('Home');
+});
+
+it('never renders the outdated parts of saved states', async () => {
+  const createStackNavigator = createNavigatorFactory((props: any) => {
+    const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+    return descriptors[state.routes[state.index].key].render();
+  });
+
+  const Stack = createStackNavigator();
+
+  const rendered: string[] = [];
+
+  const Test = ({ route }: any) => {
+    rendered.push(route.name);
+
+    return route.name;
+  };
+
+  const createStorage = (value: object) => ({
+    getItem: () => Promise.resolve(JSON.stringify(value)),
+    setItem: () => {},
+  });
+
+  const element = (persistence: any) => (
+    <NavigationContainer persistence={persistence}>
+      <Stack.Navigator>
+        <Stack.Screen name="Home" component={Test} />
+        <Stack.Screen name="Settings">
+          {() => (
+            <Stack.Navigator>
+              <Stack.Screen name="General" component={Test} />
+              <Stack.Screen name="Privacy" component={Test} />
+            </Stack.Navigator>
+          )}
+        </Stack.Screen>
+      </Stack.Navigator>
+    </NavigationContainer>
+  );
+
+  const root = render(
+    element({
+      storage: createStorage({
+        version: 1,
+        state: { routes: [{ name: 'Home' }, { name: 'Profile' }] },
+      }),
+    })
+  );
+
+  await act(async () => {
+    await Promise.resolve();
+  });
+
+  // The router would drop the unknown route and render `Home` with the saved state
+  // Instead we start from the initial state so the saved history isn't used
+  expect(root.toJSON()).toBe('Home');
+  expect(rendered).toEqual(['Home']);
+
+  root.update(<React.Fragment />);
+
+  rendered.length = 0;
+
+  root.update(
+    element({
+      storage: createStorage({
+        version: 1,
+        state: {
+          routes: [
+            { name: 'Home' },
+            {
+              name: 'Settings',
+              state: {
+                routes: [
+                  { name: 'General' },
+                  { name: 'Notifications' },
+                  { name: 'Privacy' },
+                ],
+              },
+            },
+          ],
+        },
+      }),
+    })
+  );
+
+  await act(async () => {
+    await Promise.resolve();
+  });
+
+  // Only the nested navigator whose screens changed starts from its initial state
+  expect(root.toJSON()).toBe('General');
+  expect(rendered).toEqual(['General']);
+});
@@ -0,0 +1,155 @@
+import * as React from 'react';
+import { Linking } from 'react-native';
+import {
+  createNavigatorFactory,
+  useNavigationBuilder,
+  StackRouter,
+  NavigationContainerRef,
+  NavigationState,
+  DefaultNavigatorOptions,
+} from '@react-navigation/core';
+import { act, render } from '@testing-library/react-native';
+import createStaticNavigation from '../createStaticNavigation';
+
+type StackOptions = { title?: string };
+
+const StackNavigator = (props: DefaultNavigatorOptions<StackOptions>) => {
+  const { state, descriptors } = useNavigationBuilder(StackRouter, props);
+
+  return descriptors[state.routes[state.index].key].render();
+};
+
+const createStackNavigator = createNavigatorFactory<
+  NavigationState,
+  StackOptions,
+  {},
+  typeof StackNavigator
+>(StackNavigator);
+
+const Stack = createStackNavigator();
+
+const Profile = ({ route }: { route: { params: { id: string } } }) =>
+  `Profile ${route.params.id}` as any;
+
+const config = {
+  navigator: Stack,
+  initialRouteName: 'Home',
+  screens: {
+    Home: {
+      navigator: Stack,
+      screens: {
+        Feed: () => 'Feed' as any,
+        Latest: () => 'Latest' as any,
+      },
+    },
+    UserProfile: {
+      screen: Profile,
+      options: { title: 'Profile' },
+      linking: 'user/:id',
+    },
+  },
+};
+
+it('renders the navigators from a static config', () => {
+  const Navigation = createStaticNavigation(config);
+
+  const ref = React.createRef<NavigationContainerRef>();
+
+  const root = render(<Navigation ref={ref} />);
+
+  expect(root.toJSON()).toBe('Feed');
+
+  act(() => ref.current?.navigate('UserProfile', { id: 'jane' }));
+
+  expect(root.toJSON()).toBe('Profile jane');
+  expect(ref.current?.getCurrentOptions()).toEqual({ title: 'Profile' });
+});
+
+it('uses the linking config created from the static config', async () => {
+  const spy = jest
+    .spyOn(Linking, 'getInitialURL')
+    .mockImplementation(() => Promise.resolve('myapp://user/jane'));
+
+  const Navigation = createStaticNavigation(config);
+
+  const root = render(<Navigation linking={{ prefixes: ['myapp://'] }} />);
+
+  await act(async () => {
+    await new Promise((resolve) => setImmediate(resolve));
+  });
+
+  expect(root.toJSON()).toBe('Profile jane');
+
+  spy.mockRestore();
+});
+
+it('uses the linking config from the props if specified', async () => {
+  const spy = jest
+    .spyOn(Linking, 'getInitialURL')
+    .mockImplementation(() => Promise.resolve('myapp://latest'));
+
+  const Navigation = createStaticNavigation(config);
+
+  const root = render(
+    <Navigation
+      linking={{
+        prefixes: ['myapp://'],
+        config: {
+          screens: {
+            Home: {
+              screens: {
+                Latest: 'latest',
+              },
+            },
+          },
+        },
+      }}
+    />
+  );
+
+  await act(async () => {
+    await new Promise((resolve) => setImmediate(resolve));
+  });
+
+  // The default config would have the path `home/latest` for this screen
+  expect(root.toJSON()).toBe('Latest');
+
+  spy.mockRestore();
+});
+
+it('type-checks the static config against the navigators', () => {
+  const check = () => {
+    createStaticNavigation({
+      navigator: Stack,
+      // @ts-expect-error: the screen options of the navigator are typed
+      screenOptions: { title: 42 },
+      screens: {
+        Home: () => null,
+      },
+    });
+
+    createStaticNavigation({
+      navigator: Stack,
+      screens: {
+        UserProfile: {
+          screen: Profile,
+          // @ts-expect-error: the options of the screen are typed
+          options: { title: 42 },
+        },
+      },
+    });
+
+    createStaticNavigation({
+      navigator: Stack,
+      screens: {
+        UserProfile: {
+          screen: Profile,
+          // @ts-expect-error: the params are typed from the component
+          initialParams: { id: 42 },
+        },
+      },
+    });
+  };
+
+  expect(check).toBeDefined();
+});
@@ -0,0 +1,67 @@
+import * as React from 'react';
+import {
+  createComponentForStaticNavigation,
+  createPathConfigForStaticNavigation,
+  NavigationContainerRef,
+  StaticNavigatorConfig,
+  TypedStaticNavigatorConfig,
+} from '@react-navigation/core';
+import NavigationContainer from './NavigationContainer';
+import type { LinkingOptions } from './types';
+
+type Props = Omit<
+  React.ComponentProps<typeof NavigationContainer>,
+  'linking' | 'children'
+> & {
+  /**
+   * Options for deep linking.
+   * The config for the screens is created from the static config if not specified.
+   */
+  linking?: Omit<LinkingOptions, 'config'> & {
+    config?: LinkingOptions['config'];
+  };
+};
+
+/**
+ * Create a navigation component from a static navigator config.
+ * The component renders a `NavigationContainer` with the navigator tree inside it.
+ * The props of the navigators and the options and params of the screens are type-checked against the navigators in the config.
+ *
+ * @param config Config object containing the root navigator and its screens.
+ * @returns Navigation component which accepts the same props as `NavigationContainer`.
+ */
+export default function createStaticNavigation<
+  Config extends StaticNavigatorConfig<any>
+>(config: Config & TypedStaticNavigatorConfig<Config>) {
+  const Component = createComponentForStaticNavigation(config, 'RootNavigator');
+
+  const screens = createPathConfigForStaticNavigation(config);
+
+  return React.forwardRef(function StaticNavigation(
+    { linking, ...rest }: Props,
+    ref?: React.Ref<NavigationContainerRef>
+  ) {
+    const linkingConfig = React.useMemo(
+      () =>
+        linking
+          ? {
+              ...linking,
+              config: linking.config ?? {
+                initialRouteName:
+                  typeof config.initialRouteName === 'string'
+                    ? config.initialRouteName
+                    : undefined,
+                screens,
+              },
+            }
+          : undefined,
+      [linking]
+    );
+
+    return (
+      <NavigationContainer {...rest} linking={linkingConfig} ref={ref}>
+        <Component />
+      </NavigationContainer>
+    );
+  });
+}
@@ -1,6 +1,7 @@
 export * from '@react-navigation/core';
 
 export { default as NavigationContainer } from './NavigationContainer';
+export { default as createStaticNavigation } from './createStaticNavigation';
 
 export { default as useBackButton } from './useBackButton';
 export { default as useScrollToTop } from './useScrollToTop';
@@ -1,8 +1,10 @@
 import type {
   getStateFromPath as getStateFromPathDefault,
   getPathFromState as getPathFromStateDefault,
+  InitialState,
   PathConfigMap,
   Route,
+  RootParamList,
 } from '@react-navigation/core';
 
 export type Theme = {
@@ -60,6 +62,59 @@ export type LinkingOptions = {
   getPathFromState?: typeof getPathFromStateDefault;
 };
 
+export type PersistenceStorage = {
+  /**
+   * Get the stored value for the key, or `null` if nothing is stored.
+   * e.g. `AsyncStorage.getItem`
+   */
+  getItem(key: string): Promise<string | null> | string | null;
+  /**
+   * Store the value for the key.
+   * e.g. `AsyncStorage.setItem`
+   */
+  setItem(key: string, value: string): Promise<void> | void;
+};
+
+export type PersistenceOptions = {
+  /**
+   * Storage adapter to read and write the navigation state.
+   */
+  storage: PersistenceStorage;
+  /**
+   * Key to store the navigation state under.
+   * Defaults to `'NAVIGATION_STATE'`.
+   */
+  key?: string;
+  /**
+   * Version of the shape of the navigation state.
+   * Increment it when the screens change in a way that the saved states are no longer usable.
+   * Defaults to `1`.
+   */
+  version?: number;
+  /**
+   * Function to migrate a state saved with an older version to the current version.
+   * Return `undefined` to discard the saved state.
+   * If not specified, states saved with a different version are discarded.
+   */
+  migrate?: (state: any, fromVersion: number) => InitialState | undefined;
+  /**
+   * Minimum time in milliseconds between writes to the storage.
+   * Defaults to `1000`.
+   */
+  throttle?: number;
+};
+
+/**
+ * Destination for a link, either an absolute path (e.g. `/feeds/hot`) or a screen name with params.
+ */
+export type To<ParamList extends {} = RootParamList> =
+  | string
+  | {
+      [RouteName in keyof ParamList]: undefined extends ParamList[RouteName]
+        ? { screen: RouteName; params?: ParamList[RouteName] }
+        : { screen: RouteName; params: ParamList[RouteName] };
+    }[keyof ParamList];
+
 export type DocumentTitleOptions = {
   enabled?: boolean;
   formatter?: (
@@ -1,25 +1,60 @@
 import * as React from 'react';
 import { Platform, GestureResponderEvent } from 'react-native';
 import {
+  getPathFromState,
   NavigationAction,
   NavigationHelpersContext,
+  NavigationState,
+  PartialState,
+  RootParamList,
 } from '@react-navigation/core';
+import LinkingContext from './LinkingContext';
 import useLinkTo from './useLinkTo';
+import type { To } from './types';
 
-type Props = {
-  to: string;
+type Props<ParamList extends {}> = {
+  to: To<ParamList>;
   action?: NavigationAction;
 };
 
+/**
+ * Get the state for a screen from its params, with the nested screens specified with `screen` and `params`.
+ */
+const getStateForScreen = (
+  name: string,
+  params: Record<string, any> | undefined
+): PartialState<NavigationState> => {
+  if (typeof params?.screen === 'string') {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { screen, params: nestedParams, initial, ...rest } = params;
+
+    return {
+      routes: [
+        {
+          name,
+          params: Object.keys(rest).length ? rest : undefined,
+          state: getStateForScreen(screen, nestedParams),
+        },
+      ],
+    };
+  }
+
+  return { routes: [{ name, params }] };
+};
+
 /**
  * Hook to get props for an anchor tag so it can work with in page navigation.
  *
- * @param props.to Absolute path to screen (e.g. `/feeds/hot`).
+ * @param props.to Absolute path to screen (e.g. `/feeds/hot`), or an object with the `screen` name and `params`.
  * @param props.action Optional action to use for in-page navigation. By default, the path is parsed to an action based on linking config.
  */
-export default function useLinkProps({ to, action }: Props) {
+export default function useLinkProps<ParamList extends {} = RootParamList>({
+  to,
+  action,
+}: Props<ParamList>) {
   const navigation = React.useContext(NavigationHelpersContext);
-  const linkTo = useLinkTo();
+  const linking = React.useContext(LinkingContext);
+  const linkTo = useLinkTo<ParamList>();
 
   const onPress = (
     e: React.MouseEvent<HTMLAnchorElement, MouseEvent> | GestureResponderEvent
@@ -49,11 +84,11 @@ export default function useLinkProps({ to, action }: Props) {
           throw new Error("Couldn't find a navigation object.");
         }
       } else {
-        if (typeof to !== 'string') {
+        if (typeof to !== 'string' && typeof to?.screen !== 'string') {
           throw new Error(
             `To 'to' option is invalid (found '${String(
               to
-            )}'. It must be a valid string for navigation.`
+            )}'. It must be a valid string or an object with a screen name for navigation.`
           );
         }
 
@@ -62,8 +97,18 @@ export default function useLinkProps({ to, action }: Props) {
     }
   };
 
+  const { options } = linking;
+
+  const href =
+    typeof to === 'string'
+      ? to
+      : (options?.getPathFromState ?? getPathFromState)(
+          getStateForScreen(String(to.screen), to.params),
+          options?.config
+        );
+
   return {
-    href: to,
+    href,
     accessibilityRole: 'link' as const,
     onPress,
   };
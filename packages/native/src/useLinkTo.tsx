@@ -3,17 +3,19 @@ import {
   getStateFromPath,
   getActionFromState,
   NavigationContext,
+  RootParamList,
 } from '@react-navigation/core';
 import LinkingContext from './LinkingContext';
+import type { To } from './types';
 
-export default function useLinkTo() {
+export default function useLinkTo<ParamList extends {} = RootParamList>() {
   const navigation = React.useContext(NavigationContext);
   const linking = React.useContext(LinkingContext);
 
   const linkTo = React.useCallback(
-    (path: string) => {
-      if (!path.startsWith('/')) {
-        throw new Error(`The path must start with '/' (${path}).`);
+    (to: To<ParamList>) => {
+      if (typeof to === 'string' && !to.startsWith('/')) {
+        throw new Error(`The path must start with '/' (${to}).`);
       }
 
       if (navigation === undefined) {
@@ -22,6 +24,13 @@ export default function useLinkTo() {
         );
       }
 
+      if (typeof to !== 'string') {
+        // @ts-expect-error: the params are type-checked by the `To` type already
+        navigation.navigate(to.screen, to.params);
+        return;
+      }
+
+      const path = to;
       const { options } = linking;
 
       const state = options?.getStateFromPath
@@ -0,0 +1,165 @@
+import * as React from 'react';
+import type { InitialState, NavigationState } from '@react-navigation/core';
+import type { PersistenceOptions } from './types';
+
+type ResultState = InitialState | undefined;
+
+/**
+ * Check if the object has the shape of a navigation state.
+ * This makes sure that the navigators don't crash when rehydrating a corrupt state.
+ */
+const isStateShapeValid = (state: any): boolean => {
+  if (state == null || typeof state !== 'object') {
+    return false;
+  }
+
+  const { index, routes } = state;
+
+  if (!Array.isArray(routes) || routes.length === 0) {
+    return false;
+  }
+
+  if (
+    index !== undefined &&
+    !(Number.isInteger(index) && index >= 0 && index < routes.length)
+  ) {
+    return false;
+  }
+
+  return routes.every(
+    (route: any) =>
+      route != null &&
+      typeof route.name === 'string' &&
+      (route.state === undefined || isStateShapeValid(route.state))
+  );
+};
+
+export default function usePersistence(
+  options: PersistenceOptions | undefined
+) {
+  // We store the options in ref to avoid re-creating the callbacks when they change
+  const optionsRef = React.useRef(options);
+
+  React.useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  const getInitialState = React.useCallback(() => {
+    const options = optionsRef.current;
+
+    if (options === undefined) {
+      // Make it a thenable to resolve synchronously when persistence is disabled
+      const thenable = {
+        then(onfulfilled?: (state: ResultState) => void) {
+          return Promise.resolve(
+            onfulfilled ? onfulfilled(undefined) : undefined
+          );
+        },
+        catch() {
+          return thenable;
+        },
+      };
+
+      return thenable as PromiseLike<ResultState>;
+    }
+
+    const { storage, key = 'NAVIGATION_STATE', version = 1, migrate } = options;
+
+    const parse = (value: string | null): ResultState => {
+      if (value == null) {
+        return undefined;
+      }
+
+      let state: ResultState;
+
+      try {
+        const saved = JSON.parse(value);
+
+        state =
+          saved.version === version
+            ? saved.state
+            : migrate?.(saved.state, saved.version);
+      } catch (e) {
+        // Discard the saved state if it can't be parsed or migrated
+        return undefined;
+      }
+
+      if (!isStateShapeValid(state)) {
+        return undefined;
+      }
+
+      return state;
+    };
+
+    return Promise.resolve()
+      .then(() => storage.getItem(key))
+      .then(parse, () => undefined);
+  }, []);
+
+  const pendingRef = React.useRef<{ state: NavigationState | undefined }>();
+  const timerRef = React.useRef<any>();
+
+  const save = React.useCallback((state: NavigationState | undefined) => {
+    const options = optionsRef.current;
+
+    if (options === undefined) {
+      return;
+    }
+
+    const { storage, key = 'NAVIGATION_STATE', version = 1 } = options;
+
+    Promise.resolve()
+      .then(() => storage.setItem(key, JSON.stringify({ version, state })))
+      .catch(() => {
+        // Failing to save the state shouldn't break the navigation
+      });
+  }, []);
+
+  const flush = React.useCallback(() => {
+    const pending = pendingRef.current;
+
+    if (pending === undefined) {
+      timerRef.current = undefined;
+      return;
+    }
+
+    pendingRef.current = undefined;
+
+    save(pending.state);
+
+    // Writes which happen before the timer ends are combined into one
+    timerRef.current = setTimeout(flush, optionsRef.current?.throttle ?? 1000);
+  }, [save]);
+
+  const onStateChange = React.useCallback(
+    (state: NavigationState | undefined) => {
+      if (optionsRef.current === undefined) {
+        return;
+      }
+
+      pendingRef.current = { state };
+
+      if (timerRef.current === undefined) {
+        flush();
+      }
+    },
+    [flush]
+  );
+
+  React.useEffect(
+    () => () => {
+      clearTimeout(timerRef.current);
+
+      // Save the latest state so it's not lost when the container unmounts
+      if (pendingRef.current !== undefined) {
+        save(pendingRef.current.state);
+      }
+    },
+    [save]
+  );
+
+  return {
+    getInitialState,
+    onStateChange,
+  };
+}
@@ -1,4 +1,9 @@
-import type { NavigationState, PartialState, Route } from './types';
+import type {
+  NavigationAction,
+  NavigationState,
+  PartialState,
+  Route,
+} from './types';
 
 type ResetState =
   | PartialState<NavigationState>
@@ -16,8 +21,8 @@ export type Action =
   | {
       type: 'NAVIGATE';
       payload:
-        | { key: string; name?: undefined; params?: object }
-        | { name: string; key?: string; params?: object };
+        | { key: string; name?: undefined; params?: object; merge?: boolean }
+        | { name: string; key?: string; params?: object; merge?: boolean };
       source?: string;
       target?: string;
     }
@@ -32,6 +37,12 @@ export type Action =
       payload: { params?: object };
       source?: string;
       target?: string;
+    }
+  | {
+      type: 'BATCH';
+      payload: { actions: NavigationAction[] };
+      source?: string;
+      target?: string;
     };
 
 export function goBack(): Action {
@@ -40,8 +51,8 @@ export function goBack(): Action {
 
 export function navigate(
   route:
-    | { key: string; params?: object }
-    | { name: string; key?: string; params?: object }
+    | { key: string; params?: object; merge?: boolean }
+    | { name: string; key?: string; params?: object; merge?: boolean }
 ): Action;
 // eslint-disable-next-line no-redeclare
 export function navigate(name: string, params?: object): Action;
@@ -69,3 +80,7 @@ export function reset(state: ResetState): Action {
 export function setParams(params: object): Action {
   return { type: 'SET_PARAMS', payload: { params } };
 }
+
+export function batch(actions: NavigationAction[]): Action {
+  return { type: 'BATCH', payload: { actions } };
+}
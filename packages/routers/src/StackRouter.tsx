@@ -1,5 +1,6 @@
 import { nanoid } from 'nanoid/non-secure';
 import BaseRouter from './BaseRouter';
+import getUpdatedParams from './getUpdatedParams';
 import type {
   NavigationState,
   CommonNavigationAction,
@@ -32,6 +33,12 @@ export type StackActionType =
       type: 'POP_TO_TOP';
       source?: string;
       target?: string;
+    }
+  | {
+      type: 'POP_TO';
+      payload: { name: string; params?: object; merge?: boolean };
+      source?: string;
+      target?: string;
     };
 
 export type StackRouterOptions = DefaultRouterOptions;
@@ -77,6 +84,25 @@ export type StackActionHelpers<ParamList extends ParamListBase> = {
    * Pop to the first route in the stack, dismissing all other screens.
    */
   popToTop(): void;
+
+  /**
+   * Pop any screens to go back to the last occurrence of a route in the stack.
+   * If a route with the given name isn't present in the stack, it'll be pushed instead.
+   *
+   * @param name Name of the route to pop to.
+   * @param [params] Params object for the route.
+   * @param [options.merge] Whether to merge the params with the existing params of the route.
+   */
+  popTo<RouteName extends keyof ParamList>(
+    ...args: undefined extends ParamList[RouteName]
+      ?
+          | [RouteName]
+          | [RouteName, ParamList[RouteName]]
+          | [RouteName, ParamList[RouteName], { merge?: boolean }]
+      :
+          | [RouteName, ParamList[RouteName]]
+          | [RouteName, ParamList[RouteName], { merge?: boolean }]
+  ): void;
 };
 
 export const StackActions = {
@@ -92,9 +118,21 @@ export const StackActions = {
   popToTop(): StackActionType {
     return { type: 'POP_TO_TOP' };
   },
+  popTo(
+    name: string,
+    params?: object,
+    options?: { merge?: boolean }
+  ): StackActionType {
+    return {
+      type: 'POP_TO',
+      payload: { name, params, merge: options?.merge },
+    };
+  },
 };
 
 export default function StackRouter(options: StackRouterOptions) {
+  const { mergeParams = true } = options;
+
   const router: Router<
     StackNavigationState,
     CommonNavigationAction | StackActionType
@@ -173,9 +211,14 @@ export default function StackRouter(options: StackRouterOptions) {
       };
     },
 
-    getStateForRouteNamesChange(state, { routeNames, routeParamList }) {
-      const routes = state.routes.filter((route) =>
-        routeNames.includes(route.name)
+    getStateForRouteNamesChange(
+      state,
+      { routeNames, routeParamList, routeKeyChanges = [] }
+    ) {
+      const routes = state.routes.filter(
+        (route) =>
+          routeNames.includes(route.name) &&
+          !routeKeyChanges.includes(route.name)
       );
 
       if (routes.length === 0) {
@@ -215,7 +258,7 @@ export default function StackRouter(options: StackRouterOptions) {
     },
 
     getStateForAction(state, action, options) {
-      const { routeParamList } = options;
+      const { routeParamList, routeGetIdList } = options;
 
       switch (action.type) {
         case 'REPLACE': {
@@ -256,6 +299,10 @@ export default function StackRouter(options: StackRouterOptions) {
 
         case 'PUSH':
           if (state.routeNames.includes(action.payload.name)) {
+            const getId = routeGetIdList?.[action.payload.name];
+            const id = getId?.({ params: action.payload.params });
+
+            // If a route with the same key or ID already exists, move it to the top instead of adding a new one
             const route =
               action.payload.name && action.payload.key
                 ? state.routes.find(
@@ -263,6 +310,12 @@ export default function StackRouter(options: StackRouterOptions) {
                       route.name === action.payload.name &&
                       route.key === action.payload.key
                   )
+                : id !== undefined
+                ? state.routes.find(
+                    (route) =>
+                      route.name === action.payload.name &&
+                      id === getId?.({ params: route.params })
+                  )
                 : undefined;
 
             let routes: Route<string>[];
@@ -270,16 +323,15 @@ export default function StackRouter(options: StackRouterOptions) {
             if (route) {
               routes = state.routes.filter((r) => r.key !== route.key);
               routes.push(
-                action.payload.params
+                action.payload.params !== undefined
                   ? {
                       ...route,
-                      params:
-                        action.payload.params !== undefined
-                          ? {
-                              ...route.params,
-                              ...action.payload.params,
-                            }
-                          : route.params,
+                      params: getUpdatedParams(
+                        route,
+                        action.payload.params,
+                        mergeParams,
+                        routeParamList
+                      ),
                     }
                   : route
               );
@@ -344,12 +396,119 @@ export default function StackRouter(options: StackRouterOptions) {
             options
           );
 
+        case 'POP_TO': {
+          const { name, params, merge } = action.payload;
+
+          if (!state.routeNames.includes(name)) {
+            return null;
+          }
+
+          let index = -1;
+
+          for (let i = state.routes.length - 1; i >= 0; i--) {
+            if (state.routes[i].name === name) {
+              index = i;
+              break;
+            }
+          }
+
+          if (index === -1) {
+            // If the route doesn't exist in the stack, push it instead
+            return router.getStateForAction(
+              state,
+              {
+                type: 'PUSH',
+                payload: { name, params },
+              },
+              options
+            );
+          }
+
+          const route = state.routes[index];
+
+          const nextParams = getUpdatedParams(
+            route,
+            params,
+            Boolean(merge),
+            routeParamList
+          );
+
+          return {
+            ...state,
+            index,
+            routes: [
+              ...state.routes.slice(0, index),
+              nextParams !== route.params
+                ? { ...route, params: nextParams }
+                : route,
+            ],
+          };
+        }
+
         case 'NAVIGATE':
           if (
             action.payload.key ||
             (action.payload.name &&
               state.routeNames.includes(action.payload.name))
           ) {
+            const merge =
+              action.payload.merge !== undefined
+                ? action.payload.merge
+                : mergeParams;
+
+            const getId =
+              action.payload.key === undefined &&
+              action.payload.name !== undefined
+                ? routeGetIdList?.[action.payload.name]
+                : undefined;
+            const id = getId?.({ params: action.payload.params });
+
+            if (id !== undefined && action.payload.name !== undefined) {
+              // If the screen has an ID, we don't pop the routes above the matching route
+              // Instead the matching route is moved to the top, or a new one is pushed
+              const route = state.routes.find(
+                (r) =>
+                  r.name === action.payload.name &&
+                  id === getId?.({ params: r.params })
+              );
+
+              if (route === undefined) {
+                return router.getStateForAction(
+                  state,
+                  {
+                    type: 'PUSH',
+                    payload: {
+                      name: action.payload.name,
+                      params: action.payload.params,
+                    },
+                  },
+                  options
+                );
+              }
+
+              const routes = state.routes.filter((r) => r.key !== route.key);
+
+              routes.push(
+                action.payload.params !== undefined
+                  ? {
+                      ...route,
+                      params: getUpdatedParams(
+                        route,
+                        action.payload.params,
+                        merge,
+                        routeParamList
+                      ),
+                    }
+                  : route
+              );
+
+              return {
+                ...state,
+                index: routes.length - 1,
+                routes,
+              };
+            }
+
             // If the route already exists, navigate to that
             let index = -1;
 
@@ -403,10 +562,12 @@ export default function StackRouter(options: StackRouterOptions) {
                 action.payload.params !== undefined
                   ? {
                       ...state.routes[index],
-                      params: {
-                        ...state.routes[index].params,
-                        ...action.payload.params,
-                      },
+                      params: getUpdatedParams(
+                        state.routes[index],
+                        action.payload.params,
+                        merge,
+                        routeParamList
+                      ),
                     }
                   : state.routes[index],
               ],
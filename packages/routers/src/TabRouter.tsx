@@ -1,5 +1,6 @@
 import { nanoid } from 'nanoid/non-secure';
 import BaseRouter from './BaseRouter';
+import getUpdatedParams from './getUpdatedParams';
 import type {
   NavigationState,
   PartialState,
@@ -17,10 +18,21 @@ export type TabActionType = {
   target?: string;
 };
 
-export type BackBehavior = 'initialRoute' | 'order' | 'history' | 'none';
+export type BackBehavior =
+  | 'initialRoute'
+  | 'firstRoute'
+  | 'order'
+  | 'history'
+  | 'none'
+  | ((state: TabNavigationState) => number | undefined);
 
 export type TabRouterOptions = DefaultRouterOptions & {
   backBehavior?: BackBehavior;
+  /**
+   * Maximum number of entries to keep in the history.
+   * When the limit is exceeded, the oldest entries are dropped.
+   */
+  historyLimit?: number;
 };
 
 export type TabNavigationState = Omit<NavigationState, 'history'> & {
@@ -57,20 +69,44 @@ export const TabActions = {
 };
 
 const getRouteHistory = (
-  routes: Route<string>[],
-  index: number,
+  state: TabNavigationState,
   backBehavior: BackBehavior,
   initialRouteName: string | undefined
 ) => {
+  const { routes, index } = state;
   const history = [{ type: TYPE_ROUTE, key: routes[index].key }];
   let initialRouteIndex;
 
+  if (typeof backBehavior === 'function') {
+    // The callback receives the state with the newly focused route and returns the index to go back to
+    // We call it again for each of those routes to build the full history
+    const visited = new Set([index]);
+    let backIndex = backBehavior(state);
+
+    while (
+      backIndex !== undefined &&
+      !visited.has(backIndex) &&
+      routes[backIndex]
+    ) {
+      visited.add(backIndex);
+      history.unshift({ type: TYPE_ROUTE, key: routes[backIndex].key });
+      backIndex = backBehavior({ ...state, index: backIndex });
+    }
+
+    return history;
+  }
+
   switch (backBehavior) {
     case 'order':
       for (let i = index; i > 0; i--) {
         history.unshift({ type: TYPE_ROUTE, key: routes[i - 1].key });
       }
       break;
+    case 'firstRoute':
+      if (index !== 0) {
+        history.unshift({ type: TYPE_ROUTE, key: routes[0].key });
+      }
+      break;
     case 'initialRoute':
       initialRouteIndex = routes.findIndex(
         (route) => route.name === initialRouteName
@@ -92,11 +128,26 @@ const getRouteHistory = (
   return history;
 };
 
+const limitHistory = (
+  history: TabNavigationState['history'],
+  historyLimit: number | undefined
+) => {
+  if (historyLimit === undefined) {
+    return history;
+  }
+
+  // History always needs to contain at least the focused route
+  const limit = Math.max(historyLimit, 1);
+
+  return history.length > limit ? history.slice(-limit) : history;
+};
+
 const changeIndex = (
   state: TabNavigationState,
   index: number,
   backBehavior: BackBehavior,
-  initialRouteName: string | undefined
+  initialRouteName: string | undefined,
+  historyLimit: number | undefined
 ) => {
   let history;
 
@@ -108,8 +159,7 @@ const changeIndex = (
       .concat({ type: TYPE_ROUTE, key: currentKey });
   } else {
     history = getRouteHistory(
-      state.routes,
-      index,
+      { ...state, index },
       backBehavior,
       initialRouteName
     );
@@ -118,13 +168,15 @@ const changeIndex = (
   return {
     ...state,
     index,
-    history,
+    history: limitHistory(history, historyLimit),
   };
 };
 
 export default function TabRouter({
   initialRouteName,
   backBehavior = 'history',
+  historyLimit,
+  mergeParams = true,
 }: TabRouterOptions) {
   const router: Router<
     TabNavigationState,
@@ -146,22 +198,23 @@ export default function TabRouter({
         params: routeParamList[name],
       }));
 
-      const history = getRouteHistory(
-        routes,
-        index,
-        backBehavior,
-        initialRouteName
-      );
-
-      return {
+      const state: TabNavigationState = {
         stale: false,
         type: 'tab',
         key: `tab-${nanoid()}`,
         index,
         routeNames,
-        history,
+        history: [],
         routes,
       };
+
+      return {
+        ...state,
+        history: limitHistory(
+          getRouteHistory(state, backBehavior, initialRouteName),
+          historyLimit
+        ),
+      };
     },
 
     getRehydratedState(partialState, { routeNames, routeParamList }) {
@@ -200,9 +253,15 @@ export default function TabRouter({
         routes.length - 1
       );
 
+      // Persisted history may contain entries for routes which don't exist anymore
+      // It may also contain duplicate entries, so we only keep the last entry for each route
       const history =
-        state.history?.filter((it) => routes.find((r) => r.key === it.key)) ??
-        [];
+        state.history?.filter(
+          (it, i, self) =>
+            routes.find((r) => r.key === it.key) &&
+            (backBehavior !== 'history' ||
+              self.findIndex((item, j) => j > i && item.key === it.key) === -1)
+        ) ?? [];
 
       return changeIndex(
         {
@@ -216,36 +275,59 @@ export default function TabRouter({
         },
         index,
         backBehavior,
-        initialRouteName
+        initialRouteName,
+        historyLimit
       );
     },
 
-    getStateForRouteNamesChange(state, { routeNames, routeParamList }) {
-      const routes = routeNames.map(
-        (name) =>
-          state.routes.find((r) => r.name === name) || {
-            name,
-            key: `${name}-${nanoid()}`,
-            params: routeParamList[name],
-          }
-      );
+    getStateForRouteNamesChange(
+      state,
+      { routeNames, routeParamList, routeKeyChanges = [] }
+    ) {
+      const routes = routeNames.map((name) => {
+        const route = state.routes.find((r) => r.name === name);
+
+        // Routes with a changed key are replaced with a new route to reset them
+        return route && !routeKeyChanges.includes(name)
+          ? route
+          : {
+              name,
+              key: `${name}-${nanoid()}`,
+              params: routeParamList[name],
+            };
+      });
 
       const index = Math.max(
         0,
         routeNames.indexOf(state.routes[state.index].name)
       );
 
-      let history = state.history.filter(
-        // Type will always be 'route' for tabs, but could be different in a router extending this (e.g. drawer)
-        (it) => it.type !== 'route' || routes.find((r) => r.key === it.key)
-      );
+      let history = state.history
+        .map((it) => {
+          if (it.type !== 'route') {
+            return it;
+          }
+
+          // Keep the position in history for the routes which were reset
+          const name = state.routes.find((r) => r.key === it.key)?.name;
+
+          return name !== undefined && routeKeyChanges.includes(name)
+            ? { ...it, key: routes[routeNames.indexOf(name)]?.key ?? it.key }
+            : it;
+        })
+        .filter(
+          // Type will always be 'route' for tabs, but could be different in a router extending this (e.g. drawer)
+          (it) => it.type !== 'route' || routes.find((r) => r.key === it.key)
+        );
 
       if (!history.length) {
-        history = getRouteHistory(
-          routes,
-          index,
-          backBehavior,
-          initialRouteName
+        history = limitHistory(
+          getRouteHistory(
+            { ...state, history, routeNames, routes, index },
+            backBehavior,
+            initialRouteName
+          ),
+          historyLimit
         );
       }
 
@@ -265,10 +347,16 @@ export default function TabRouter({
         return state;
       }
 
-      return changeIndex(state, index, backBehavior, initialRouteName);
+      return changeIndex(
+        state,
+        index,
+        backBehavior,
+        initialRouteName,
+        historyLimit
+      );
     },
 
-    getStateForAction(state, action) {
+    getStateForAction(state, action, { routeParamList, routeGetIdList }) {
       switch (action.type) {
         case 'JUMP_TO':
         case 'NAVIGATE': {
@@ -288,27 +376,60 @@ export default function TabRouter({
             return null;
           }
 
+          const route = state.routes[index];
+          const nextParams = getUpdatedParams(
+            route,
+            action.payload.params,
+            action.type === 'NAVIGATE' && action.payload.merge !== undefined
+              ? action.payload.merge
+              : mergeParams,
+            routeParamList
+          );
+
+          const getId = routeGetIdList?.[route.name];
+          const currentId = getId?.({ params: route.params });
+          const nextId = getId?.({ params: nextParams });
+
+          let nextRoute: Route<string> = route;
+
+          if (
+            currentId !== undefined &&
+            nextId !== undefined &&
+            currentId !== nextId
+          ) {
+            // If the ID changed, it's a different screen, so we replace the route with a new one
+            // The params of the previous screen don't belong to the new one, so they aren't merged
+            nextRoute = {
+              key: `${route.name}-${nanoid()}`,
+              name: route.name,
+              params:
+                routeParamList[route.name] !== undefined
+                  ? {
+                      ...routeParamList[route.name],
+                      ...action.payload.params,
+                    }
+                  : action.payload.params,
+            };
+          } else if (nextParams !== route.params) {
+            nextRoute = { ...route, params: nextParams };
+          }
+
           return changeIndex(
             {
               ...state,
               routes:
-                action.payload.params !== undefined
-                  ? state.routes.map((route, i) =>
-                      i === index
-                        ? {
-                            ...route,
-                            params: {
-                              ...route.params,
-                              ...action.payload.params,
-                            },
-                          }
-                        : route
-                    )
+                nextRoute !== route
+                  ? state.routes.map((r, i) => (i === index ? nextRoute : r))
                   : state.routes,
+              history:
+                nextRoute.key !== route.key
+                  ? state.history.filter((it) => it.key !== route.key)
+                  : state.history,
             },
             index,
             backBehavior,
-            initialRouteName
+            initialRouteName,
+            historyLimit
           );
         }
 
@@ -582,3 +582,97 @@ it('closes drawer on focus change', () => {
     type: 'drawer',
   });
 });
+
+it('replaces the route on navigate if the ID changes', () => {
+  const router = DrawerRouter({});
+  const options = {
+    routeNames: ['baz', 'bar'],
+    routeParamList: {},
+    routeGetIdList: {
+      baz: ({ params }: { params?: any }) => params?.userId,
+    },
+  };
+
+  expect(
+    router.getStateForAction(
+      {
+        stale: false,
+        type: 'drawer',
+        key: 'root',
+        index: 1,
+        routeNames: ['baz', 'bar'],
+        routes: [
+          { key: 'baz', name: 'baz', params: { userId: 1 } },
+          { key: 'bar', name: 'bar' },
+        ],
+        history: [
+          { type: 'route', key: 'baz' },
+          { type: 'route', key: 'bar' },
+          { type: 'drawer' },
+        ],
+      },
+      CommonActions.navigate('baz', { userId: 2 }),
+      options
+    )
+  ).toEqual({
+    stale: false,
+    type: 'drawer',
+    key: 'root',
+    index: 0,
+    routeNames: ['baz', 'bar'],
+    routes: [
+      { key: 'baz-test', name: 'baz', params: { userId: 2 } },
+      { key: 'bar', name: 'bar' },
+    ],
+    history: [
+      { type: 'route', key: 'bar' },
+      { type: 'route', key: 'baz-test' },
+    ],
+  });
+});
+
+it('handles back action with backBehavior: firstRoute', () => {
+  const router = DrawerRouter({
+    backBehavior: 'firstRoute',
+    initialRouteName: 'bar',
+  });
+
+  const options = {
+    routeNames: ['baz', 'bar', 'qux'],
+    routeParamList: {},
+  };
+
+  let state = router.getInitialState(options);
+
+  state = router.getStateForAction(
+    state,
+    DrawerActions.jumpTo('qux'),
+    options
+  ) as DrawerNavigationState;
+
+  state = router.getStateForAction(
+    state,
+    DrawerActions.openDrawer(),
+    options
+  ) as DrawerNavigationState;
+
+  state = router.getStateForAction(
+    state,
+    CommonActions.goBack(),
+    options
+  ) as DrawerNavigationState;
+
+  expect(state.index).toBe(2);
+  expect(state.history).toEqual([
+    { type: 'route', key: 'baz-test' },
+    { type: 'route', key: 'qux-test' },
+  ]);
+
+  expect(
+    router.getStateForAction(state, CommonActions.goBack(), options)
+  ).toEqual({
+    ...state,
+    index: 0,
+    history: [{ type: 'route', key: 'baz-test' }],
+  });
+});
@@ -240,6 +240,39 @@ it('gets state on route names change with initialRouteName', () => {
   });
 });
 
+it('removes routes with changed keys on route names change', () => {
+  const router = StackRouter({});
+
+  expect(
+    router.getStateForRouteNamesChange(
+      {
+        index: 2,
+        key: 'stack-test',
+        routeNames: ['foo', 'bar', 'baz'],
+        routes: [
+          { key: 'foo-test', name: 'foo' },
+          { key: 'bar-test', name: 'bar' },
+          { key: 'baz-test', name: 'baz', params: { answer: 42 } },
+        ],
+        stale: false,
+        type: 'stack',
+      },
+      {
+        routeNames: ['foo', 'bar', 'baz'],
+        routeParamList: {},
+        routeKeyChanges: ['bar', 'baz'],
+      }
+    )
+  ).toEqual({
+    index: 0,
+    key: 'stack-test',
+    routeNames: ['foo', 'bar', 'baz'],
+    routes: [{ key: 'foo-test', name: 'foo' }],
+    stale: false,
+    type: 'stack',
+  });
+});
+
 it('handles navigate action', () => {
   const router = StackRouter({});
   const options = {
@@ -682,6 +715,122 @@ it('handles pop to top action', () => {
   });
 });
 
+it('handles pop to action', () => {
+  const router = StackRouter({});
+  const options = {
+    routeNames: ['baz', 'bar', 'qux'],
+    routeParamList: {
+      qux: { color: 'red' },
+    },
+  };
+
+  const state = {
+    stale: false as const,
+    type: 'stack' as const,
+    key: 'root',
+    index: 3,
+    routeNames: ['baz', 'bar', 'qux'],
+    routes: [
+      { key: 'baz-0', name: 'baz' },
+      { key: 'bar-0', name: 'bar', params: { answer: 42 } },
+      { key: 'qux-0', name: 'qux' },
+      { key: 'bar-1', name: 'bar', params: { answer: 21, fruit: 'apple' } },
+      { key: 'baz-1', name: 'baz' },
+    ],
+  };
+
+  expect(
+    router.getStateForAction(
+      { ...state, index: 4 },
+      StackActions.popTo('bar'),
+      options
+    )
+  ).toEqual({
+    ...state,
+    routes: state.routes.slice(0, 4),
+  });
+
+  expect(
+    router.getStateForAction(
+      { ...state, index: 4 },
+      StackActions.popTo('bar', { answer: 10 }),
+      options
+    )
+  ).toEqual({
+    ...state,
+    routes: [
+      ...state.routes.slice(0, 3),
+      { key: 'bar-1', name: 'bar', params: { answer: 10 } },
+    ],
+  });
+
+  expect(
+    router.getStateForAction(
+      { ...state, index: 4 },
+      StackActions.popTo('bar', { answer: 10 }, { merge: true }),
+      options
+    )
+  ).toEqual({
+    ...state,
+    routes: [
+      ...state.routes.slice(0, 3),
+      { key: 'bar-1', name: 'bar', params: { answer: 10, fruit: 'apple' } },
+    ],
+  });
+
+  expect(
+    router.getStateForAction(
+      { ...state, index: 4 },
+      StackActions.popTo('qux', { size: 'large' }),
+      options
+    )
+  ).toEqual({
+    ...state,
+    index: 2,
+    routes: [
+      ...state.routes.slice(0, 2),
+      { key: 'qux-0', name: 'qux', params: { color: 'red', size: 'large' } },
+    ],
+  });
+
+  expect(
+    router.getStateForAction(
+      {
+        stale: false,
+        type: 'stack',
+        key: 'root',
+        index: 1,
+        routeNames: ['baz', 'bar', 'qux'],
+        routes: [
+          { key: 'baz-0', name: 'baz' },
+          { key: 'bar-0', name: 'bar' },
+        ],
+      },
+      StackActions.popTo('qux', { size: 'large' }),
+      options
+    )
+  ).toEqual({
+    stale: false,
+    type: 'stack',
+    key: 'root',
+    index: 2,
+    routeNames: ['baz', 'bar', 'qux'],
+    routes: [
+      { key: 'baz-0', name: 'baz' },
+      { key: 'bar-0', name: 'bar' },
+      { key: 'qux-test', name: 'qux', params: { color: 'red', size: 'large' } },
+    ],
+  });
+
+  expect(
+    router.getStateForAction(
+      { ...state, index: 4 },
+      StackActions.popTo('unknown'),
+      options
+    )
+  ).toBe(null);
+});
+
 it('replaces focused screen with replace', () => {
   const router = StackRouter({});
   const options = {
@@ -1074,3 +1223,179 @@ it('merges params on navigate to an existing screen', () => {
     ],
   });
 });
+
+it('moves an existing route with matching ID to the top on navigate and push', () => {
+  const router = StackRouter({});
+  const options = {
+    routeNames: ['baz', 'bar', 'qux'],
+    routeParamList: {},
+    routeGetIdList: {
+      bar: ({ params }: { params?: any }) => params?.id,
+    },
+  };
+
+  const state = {
+    stale: false as const,
+    type: 'stack' as const,
+    key: 'root',
+    index: 2,
+    routeNames: ['baz', 'bar', 'qux'],
+    routes: [
+      {
+        key: 'bar-0',
+        name: 'bar',
+        params: { id: '1', answer: 42 },
+        state: {
+          stale: false as const,
+          type: 'stack',
+          key: 'nested',
+          index: 0,
+          routeNames: ['lex'],
+          routes: [{ key: 'lex', name: 'lex' }],
+        },
+      },
+      { key: 'bar-1', name: 'bar', params: { id: '2' } },
+      { key: 'qux-0', name: 'qux' },
+    ],
+  };
+
+  expect(
+    router.getStateForAction(
+      state,
+      CommonActions.navigate('bar', { id: '1' }),
+      options
+    )
+  ).toEqual({
+    ...state,
+    routes: [
+      state.routes[1],
+      state.routes[2],
+      { ...state.routes[0], params: { id: '1', answer: 42 } },
+    ],
+  });
+
+  expect(
+    router.getStateForAction(
+      state,
+      StackActions.push('bar', { id: '2', fruit: 'orange' }),
+      options
+    )
+  ).toEqual({
+    ...state,
+    routes: [
+      state.routes[0],
+      state.routes[2],
+      { key: 'bar-1', name: 'bar', params: { id: '2', fruit: 'orange' } },
+    ],
+  });
+
+  expect(
+    router.getStateForAction(
+      state,
+      CommonActions.navigate('bar', { id: '3' }),
+      options
+    )
+  ).toEqual({
+    ...state,
+    index: 3,
+    routes: [
+      ...state.routes,
+      { key: 'bar-test', name: 'bar', params: { id: '3' } },
+    ],
+  });
+
+  expect(
+    router.getStateForAction(state, CommonActions.navigate('bar'), options)
+  ).toEqual({
+    ...state,
+    index: 1,
+    routes: state.routes.slice(0, 2),
+  });
+});
+
+it('replaces params on navigate when merge is disabled', () => {
+  const options = {
+    routeNames: ['baz', 'bar', 'qux'],
+    routeParamList: { bar: { color: 'red' } },
+  };
+
+  const state = {
+    stale: false as const,
+    type: 'stack' as const,
+    key: 'root',
+    index: 2,
+    routeNames: ['baz', 'bar', 'qux'],
+    routes: [
+      { key: 'baz', name: 'baz' },
+      { key: 'bar', name: 'bar', params: { color: 'blue', answer: 42 } },
+      { key: 'qux', name: 'qux' },
+    ],
+  };
+
+  expect(
+    StackRouter({}).getStateForAction(
+      state,
+      CommonActions.navigate({
+        name: 'bar',
+        params: { fruit: 'orange' },
+        merge: false,
+      }),
+      options
+    )
+  ).toEqual({
+    ...state,
+    index: 1,
+    routes: [
+      { key: 'baz', name: 'baz' },
+      { key: 'bar', name: 'bar', params: { color: 'red', fruit: 'orange' } },
+    ],
+  });
+
+  const router = StackRouter({ mergeParams: false });
+
+  expect(
+    router.getStateForAction(
+      state,
+      CommonActions.navigate('bar', { fruit: 'orange' }),
+      options
+    )
+  ).toEqual({
+    ...state,
+    index: 1,
+    routes: [
+      { key: 'baz', name: 'baz' },
+      { key: 'bar', name: 'bar', params: { color: 'red', fruit: 'orange' } },
+    ],
+  });
+
+  expect(
+    router.getStateForAction(
+      state,
+      CommonActions.navigate({
+        name: 'bar',
+        params: { fruit: 'orange' },
+        merge: true,
+      }),
+      options
+    )
+  ).toEqual({
+    ...state,
+    index: 1,
+    routes: [
+      { key: 'baz', name: 'baz' },
+      {
+        key: 'bar',
+        name: 'bar',
+        params: { color: 'blue', answer: 42, fruit: 'orange' },
+      },
+    ],
+  });
+
+  expect(
+    router.getStateForAction(state, CommonActions.navigate('bar'), options)
+  ).toEqual({
+    ...state,
+    index: 1,
+    routes: state.routes.slice(0, 2),
+  });
+});
@@ -317,6 +317,55 @@ it('restores correct history on rehydrating with backBehavior: history', () => {
   });
 });
 
+it('trims and de-duplicates history on rehydrating with historyLimit', () => {
+  const router = TabRouter({ backBehavior: 'history', historyLimit: 3 });
+
+  const options = {
+    routeNames: ['foo', 'bar', 'baz', 'qux'],
+    routeParamList: {},
+  };
+
+  expect(
+    router.getRehydratedState(
+      {
+        index: 2,
+        routes: [
+          { key: 'foo-0', name: 'foo' },
+          { key: 'bar-0', name: 'bar' },
+          { key: 'baz-0', name: 'baz' },
+          { key: 'qux-0', name: 'qux' },
+        ],
+        history: [
+          { key: 'foo-0', type: 'route' },
+          { key: 'qux-0', type: 'route' },
+          { key: 'bar-0', type: 'route' },
+          { key: 'foo-0', type: 'route' },
+          { key: 'bar-0', type: 'route' },
+          { key: 'baz-0', type: 'route' },
+        ],
+      },
+      options
+    )
+  ).toEqual({
+    key: 'tab-test',
+    index: 2,
+    routeNames: ['foo', 'bar', 'baz', 'qux'],
+    routes: [
+      { key: 'foo-0', name: 'foo' },
+      { key: 'bar-0', name: 'bar' },
+      { key: 'baz-0', name: 'baz' },
+      { key: 'qux-0', name: 'qux' },
+    ],
+    history: [
+      { key: 'foo-0', type: 'route' },
+      { key: 'bar-0', type: 'route' },
+      { key: 'baz-0', type: 'route' },
+    ],
+    stale: false,
+    type: 'tab',
+  });
+});
+
 it('restores correct history on rehydrating with backBehavior: initialRoute', () => {
   const router = TabRouter({ backBehavior: 'initialRoute' });
 
@@ -468,6 +517,56 @@ it('gets state on route names change', () => {
   });
 });
 
+it('resets routes with changed keys on route names change', () => {
+  const router = TabRouter({});
+
+  expect(
+    router.getStateForRouteNamesChange(
+      {
+        index: 1,
+        key: 'tab-test',
+        routeNames: ['bar', 'baz', 'qux'],
+        routes: [
+          { key: 'bar-0', name: 'bar' },
+          {
+            key: 'baz-0',
+            name: 'baz',
+            params: { answer: 42 },
+            state: { routes: [{ key: 'quux-0', name: 'quux' }] },
+          },
+          { key: 'qux-0', name: 'qux' },
+        ],
+        history: [
+          { type: 'route', key: 'bar-0' },
+          { type: 'route', key: 'baz-0' },
+        ],
+        stale: false,
+        type: 'tab',
+      },
+      {
+        routeNames: ['bar', 'baz', 'qux'],
+        routeParamList: { baz: { answer: 7 } },
+        routeKeyChanges: ['baz'],
+      }
+    )
+  ).toEqual({
+    index: 1,
+    key: 'tab-test',
+    routeNames: ['bar', 'baz', 'qux'],
+    routes: [
+      { key: 'bar-0', name: 'bar' },
+      { key: 'baz-test', name: 'baz', params: { answer: 7 } },
+      { key: 'qux-0', name: 'qux' },
+    ],
+    history: [
+      { type: 'route', key: 'bar-0' },
+      { type: 'route', key: 'baz-test' },
+    ],
+    stale: false,
+    type: 'tab',
+  });
+});
+
 it('preserves focused route on route names change', () => {
   const router = TabRouter({});
 
@@ -979,6 +1078,171 @@ it('handles back action with backBehavior: initialRoute and initialRouteName', (
   ).toEqual(null);
 });
 
+it('handles back action with backBehavior: firstRoute', () => {
+  const router = TabRouter({
+    backBehavior: 'firstRoute',
+    initialRouteName: 'baz',
+  });
+
+  const options = {
+    routeNames: ['bar', 'baz', 'qux'],
+    routeParamList: {},
+  };
+
+  let state = router.getInitialState(options);
+
+  expect(state.history).toEqual([
+    { type: 'route', key: 'bar-test' },
+    { type: 'route', key: 'baz-test' },
+  ]);
+
+  state = router.getStateForAction(
+    state,
+    TabActions.jumpTo('qux'),
+    options
+  ) as TabNavigationState;
+
+  expect(
+    router.getStateForAction(state, CommonActions.goBack(), options)
+  ).toEqual({
+    stale: false,
+    type: 'tab',
+    key: 'tab-test',
+    index: 0,
+    routeNames: ['bar', 'baz', 'qux'],
+    routes: [
+      { key: 'bar-test', name: 'bar' },
+      { key: 'baz-test', name: 'baz' },
+      { key: 'qux-test', name: 'qux' },
+    ],
+    history: [{ type: 'route', key: 'bar-test' }],
+  });
+
+  state = router.getStateForAction(
+    state,
+    TabActions.jumpTo('bar'),
+    options
+  ) as TabNavigationState;
+
+  expect(
+    router.getStateForAction(state, CommonActions.goBack(), options)
+  ).toEqual(null);
+});
+
+it('handles back action with backBehavior as a function', () => {
+  const backBehavior = jest.fn((state: TabNavigationState) =>
+    state.routes[state.index].name === 'qux' ? 1 : undefined
+  );
+
+  const router = TabRouter({ backBehavior });
+
+  const options = {
+    routeNames: ['bar', 'baz', 'qux'],
+    routeParamList: {},
+  };
+
+  let state = router.getInitialState(options);
+
+  expect(backBehavior).toHaveBeenLastCalledWith(
+    expect.objectContaining({ index: 0 })
+  );
+
+  expect(
+    router.getStateForAction(state, CommonActions.goBack(), options)
+  ).toEqual(null);
+
+  state = router.getStateForAction(
+    state,
+    TabActions.jumpTo('qux'),
+    options
+  ) as TabNavigationState;
+
+  expect(backBehavior).toHaveBeenCalledWith(
+    expect.objectContaining({ index: 2 })
+  );
+
+  expect(
+    router.getStateForAction(state, CommonActions.goBack(), options)
+  ).toEqual({
+    stale: false,
+    type: 'tab',
+    key: 'tab-test',
+    index: 1,
+    routeNames: ['bar', 'baz', 'qux'],
+    routes: [
+      { key: 'bar-test', name: 'bar' },
+      { key: 'baz-test', name: 'baz' },
+      { key: 'qux-test', name: 'qux' },
+    ],
+    history: [{ type: 'route', key: 'baz-test' }],
+  });
+
+  state = router.getStateForAction(
+    state,
+    TabActions.jumpTo('baz'),
+    options
+  ) as TabNavigationState;
+
+  expect(
+    router.getStateForAction(state, CommonActions.goBack(), options)
+  ).toEqual(null);
+});
+
+it('handles multiple back actions with backBehavior as a function', () => {
+  const router = TabRouter({
+    backBehavior: (state) => (state.index > 0 ? state.index - 1 : undefined),
+  });
+
+  const options = {
+    routeNames: ['bar', 'baz', 'qux'],
+    routeParamList: {},
+  };
+
+  let state = router.getStateForAction(
+    router.getInitialState(options),
+    TabActions.jumpTo('qux'),
+    options
+  ) as TabNavigationState;
+
+  expect(state.history).toEqual([
+    { type: 'route', key: 'bar-test' },
+    { type: 'route', key: 'baz-test' },
+    { type: 'route', key: 'qux-test' },
+  ]);
+
+  state = router.getStateForAction(
+    state,
+    CommonActions.goBack(),
+    options
+  ) as TabNavigationState;
+
+  expect(state.index).toBe(1);
+
+  state = router.getStateForAction(
+    state,
+    CommonActions.goBack(),
+    options
+  ) as TabNavigationState;
+
+  expect(state).toEqual({
+    stale: false,
+    type: 'tab',
+    key: 'tab-test',
+    index: 0,
+    routeNames: ['bar', 'baz', 'qux'],
+    routes: [
+      { key: 'bar-test', name: 'bar' },
+      { key: 'baz-test', name: 'baz' },
+      { key: 'qux-test', name: 'qux' },
+    ],
+    history: [{ type: 'route', key: 'bar-test' }],
+  });
+
+  expect(
+    router.getStateForAction(state, CommonActions.goBack(), options)
+  ).toEqual(null);
+});
+
 it('handles back action with backBehavior: none', () => {
   const router = TabRouter({ backBehavior: 'none' });
   const options = {
@@ -1257,3 +1521,312 @@ it('merges params on jump to an existing screen', () => {
     ],
   });
 });
+
+it('replaces the route on navigate if the ID changes', () => {
+  const router = TabRouter({});
+  const options = {
+    routeNames: ['baz', 'bar', 'qux'],
+    routeParamList: { bar: { color: 'red' } },
+    routeGetIdList: {
+      bar: ({ params }: { params?: any }) => params?.userId,
+    },
+  };
+
+  const state: TabNavigationState = {
+    stale: false,
+    type: 'tab',
+    key: 'root',
+    index: 0,
+    routeNames: ['baz', 'bar', 'qux'],
+    routes: [
+      { key: 'baz', name: 'baz' },
+      { key: 'bar', name: 'bar', params: { userId: 1, fruit: 'orange' } },
+      { key: 'qux', name: 'qux' },
+    ],
+    history: [
+      { type: 'route', key: 'bar' },
+      { type: 'route', key: 'baz' },
+    ],
+  };
+
+  expect(
+    router.getStateForAction(
+      state,
+      CommonActions.navigate('bar', { userId: 1 }),
+      options
+    )
+  ).toEqual({
+    ...state,
+    index: 1,
+    routes: [
+      { key: 'baz', name: 'baz' },
+      { key: 'bar', name: 'bar', params: { userId: 1, fruit: 'orange' } },
+      { key: 'qux', name: 'qux' },
+    ],
+    history: [
+      { type: 'route', key: 'baz' },
+      { type: 'route', key: 'bar' },
+    ],
+  });
+
+  expect(
+    router.getStateForAction(state, TabActions.jumpTo('bar'), options)
+  ).toEqual({
+    ...state,
+    index: 1,
+    history: [
+      { type: 'route', key: 'baz' },
+      { type: 'route', key: 'bar' },
+    ],
+  });
+
+  expect(
+    router.getStateForAction(
+      state,
+      CommonActions.navigate('bar', { userId: 2 }),
+      options
+    )
+  ).toEqual({
+    ...state,
+    index: 1,
+    routes: [
+      { key: 'baz', name: 'baz' },
+      { key: 'bar-test', name: 'bar', params: { color: 'red', userId: 2 } },
+      { key: 'qux', name: 'qux' },
+    ],
+    history: [
+      { type: 'route', key: 'baz' },
+      { type: 'route', key: 'bar-test' },
+    ],
+  });
+});
+
+it('keeps the route on navigate if the params without an ID are merged', () => {
+  const router = TabRouter({});
+  const options = {
+    routeNames: ['baz', 'bar'],
+    routeParamList: {},
+    routeGetIdList: {
+      bar: ({ params }: { params?: any }) => params?.userId,
+    },
+  };
+
+  const state: TabNavigationState = {
+    stale: false,
+    type: 'tab',
+    key: 'root',
+    index: 0,
+    routeNames: ['baz', 'bar'],
+    routes: [
+      { key: 'baz', name: 'baz' },
+      {
+        key: 'bar',
+        name: 'bar',
+        params: { userId: '1' },
+        state: { routes: [{ name: 'qux' }] },
+      },
+    ],
+    history: [{ type: 'route', key: 'baz' }],
+  };
+
+  expect(
+    router.getStateForAction(
+      state,
+      CommonActions.navigate({
+        name: 'bar',
+        params: { tab: 'posts' },
+        merge: true,
+      }),
+      options
+    )
+  ).toEqual({
+    ...state,
+    index: 1,
+    routes: [
+      { key: 'baz', name: 'baz' },
+      {
+        key: 'bar',
+        name: 'bar',
+        params: { userId: '1', tab: 'posts' },
+        state: { routes: [{ name: 'qux' }] },
+      },
+    ],
+    history: [
+      { type: 'route', key: 'baz' },
+      { type: 'route', key: 'bar' },
+    ],
+  });
+
+  // Params without an ID don't identify a different screen
+  expect(
+    router.getStateForAction(
+      state,
+      CommonActions.navigate({
+        name: 'bar',
+        params: { tab: 'posts' },
+        merge: false,
+      }),
+      options
+    )
+  ).toEqual({
+    ...state,
+    index: 1,
+    routes: [
+      { key: 'baz', name: 'baz' },
+      {
+        key: 'bar',
+        name: 'bar',
+        params: { tab: 'posts' },
+        state: { routes: [{ name: 'qux' }] },
+      },
+    ],
+    history: [
+      { type: 'route', key: 'baz' },
+      { type: 'route', key: 'bar' },
+    ],
+  });
+});
+
+it('replaces params on navigate when merge is disabled', () => {
+  const options = {
+    routeNames: ['baz', 'bar', 'qux'],
+    routeParamList: { bar: { color: 'red' } },
+  };
+
+  const state: TabNavigationState = {
+    stale: false,
+    type: 'tab',
+    key: 'root',
+    index: 0,
+    routeNames: ['baz', 'bar', 'qux'],
+    routes: [
+      { key: 'baz', name: 'baz' },
+      { key: 'bar', name: 'bar', params: { color: 'blue', answer: 42 } },
+      { key: 'qux', name: 'qux' },
+    ],
+    history: [{ type: 'route', key: 'baz' }],
+  };
+
+  expect(
+    TabRouter({}).getStateForAction(
+      state,
+      CommonActions.navigate({
+        name: 'bar',
+        params: { fruit: 'orange' },
+        merge: false,
+      }),
+      options
+    )
+  ).toEqual({
+    ...state,
+    index: 1,
+    routes: [
+      { key: 'baz', name: 'baz' },
+      { key: 'bar', name: 'bar', params: { color: 'red', fruit: 'orange' } },
+      { key: 'qux', name: 'qux' },
+    ],
+    history: [
+      { type: 'route', key: 'baz' },
+      { type: 'route', key: 'bar' },
+    ],
+  });
+
+  const router = TabRouter({ mergeParams: false });
+
+  expect(
+    router.getStateForAction(
+      state,
+      TabActions.jumpTo('bar', { fruit: 'orange' }),
+      options
+    )
+  ).toEqual({
+    ...state,
+    index: 1,
+    routes: [
+      { key: 'baz', name: 'baz' },
+      { key: 'bar', name: 'bar', params: { color: 'red', fruit: 'orange' } },
+      { key: 'qux', name: 'qux' },
+    ],
+    history: [
+      { type: 'route', key: 'baz' },
+      { type: 'route', key: 'bar' },
+    ],
+  });
+
+  expect(
+    router.getStateForAction(
+      state,
+      CommonActions.navigate({
+        name: 'bar',
+        params: { fruit: 'orange' },
+        merge: true,
+      }),
+      options
+    )
+  ).toEqual({
+    ...state,
+    index: 1,
+    routes: [
+      { key: 'baz', name: 'baz' },
+      {
+        key: 'bar',
+        name: 'bar',
+        params: { color: 'blue', answer: 42, fruit: 'orange' },
+      },
+      { key: 'qux', name: 'qux' },
+    ],
+    history: [
+      { type: 'route', key: 'baz' },
+      { type: 'route', key: 'bar' },
+    ],
+  });
+});
+
+it('limits the number of entries in history with historyLimit', () => {
+  const router = TabRouter({ backBehavior: 'history', historyLimit: 2 });
+  const options = {
+    routeNames: ['bar', 'baz', 'qux'],
+    routeParamList: {},
+  };
+
+  let state = router.getInitialState(options);
+
+  state = router.getStateForAction(
+    state,
+    TabActions.jumpTo('baz'),
+    options
+  ) as TabNavigationState;
+
+  state = router.getStateForAction(
+    state,
+    TabActions.jumpTo('qux'),
+    options
+  ) as TabNavigationState;
+
+  expect(state.history).toEqual([
+    { type: 'route', key: 'baz-test' },
+    { type: 'route', key: 'qux-test' },
+  ]);
+
+  state = router.getStateForAction(
+    state,
+    TabActions.jumpTo('baz'),
+    options
+  ) as TabNavigationState;
+
+  expect(state.history).toEqual([
+    { type: 'route', key: 'qux-test' },
+    { type: 'route', key: 'baz-test' },
+  ]);
+
+  state = router.getStateForAction(
+    state,
+    CommonActions.goBack(),
+    options
+  ) as TabNavigationState;
+
+  expect(state.index).toBe(2);
+  expect(router.getStateForAction(state, CommonActions.goBack(), options)).toBe(
+    null
+  );
+});
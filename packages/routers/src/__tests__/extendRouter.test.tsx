@@ -0,0 +1,178 @@
+import {
+  CommonActions,
+  StackRouter,
+  StackActions,
+  StackActionType,
+  StackNavigationState,
+  extendRouter,
+} from '..';
+
+jest.mock('nanoid/non-secure', () => ({ nanoid: () => 'test' }));
+
+type WizardActionType = {
+  type: 'SKIP_STEP';
+  source?: string;
+  target?: string;
+};
+
+const WizardRouter = extendRouter(StackRouter, {
+  actionCreators: {
+    skipStep(): WizardActionType {
+      return { type: 'SKIP_STEP' };
+    },
+  },
+
+  getStateForAction(
+    state: StackNavigationState,
+    action: WizardActionType | StackActionType,
+    options,
+    base
+  ) {
+    switch (action.type) {
+      case 'SKIP_STEP': {
+        const index = state.routeNames.indexOf(state.routes[state.index].name);
+        const name = state.routeNames[index + 2];
+
+        if (name === undefined) {
+          return null;
+        }
+
+        return base.getStateForAction(state, StackActions.push(name), options);
+      }
+
+      case 'PUSH':
+        if (action.payload.name === 'disabled') {
+          // Return the same state to prevent the base router from handling it
+          return state;
+        }
+
+        return null;
+
+      default:
+        return null;
+    }
+  },
+});
+
+it('merges action creators with the base router', () => {
+  const router = WizardRouter({});
+
+  expect(Object.keys(router.actionCreators ?? {})).toEqual([
+    'replace',
+    'push',
+    'pop',
+    'popToTop',
+    'popTo',
+    'skipStep',
+  ]);
+});
+
+it('uses the methods of the base router if not overridden', () => {
+  const router = WizardRouter({ initialRouteName: 'second' });
+  const options = {
+    routeNames: ['first', 'second', 'third'],
+    routeParamList: {},
+  };
+
+  expect(router.type).toBe('stack');
+  expect(router.getInitialState(options)).toEqual(
+    StackRouter({ initialRouteName: 'second' }).getInitialState(options)
+  );
+  expect(router.shouldActionChangeFocus(CommonActions.navigate('first'))).toBe(
+    true
+  );
+});
+
+it('handles custom actions and chains to the base router', () => {
+  const router = WizardRouter({});
+  const options = {
+    routeNames: ['first', 'second', 'third', 'disabled'],
+    routeParamList: {},
+  };
+
+  const state = router.getInitialState(options);
+
+  expect(
+    router.getStateForAction(state, { type: 'SKIP_STEP' }, options)
+  ).toEqual({
+    ...state,
+    index: 1,
+    routes: [...state.routes, { key: 'third-test', name: 'third' }],
+  });
+
+  expect(
+    router.getStateForAction(state, StackActions.push('second'), options)
+  ).toEqual({
+    ...state,
+    index: 1,
+    routes: [...state.routes, { key: 'second-test', name: 'second' }],
+  });
+
+  expect(
+    router.getStateForAction(state, StackActions.push('disabled'), options)
+  ).toBe(state);
+
+  expect(
+    router.getStateForAction(
+      {
+        ...state,
+        index: 1,
+        routes: [...state.routes, { key: 'third-test', name: 'third' }],
+      },
+      { type: 'SKIP_STEP' },
+      options
+    )
+  ).toBe(null);
+});
+
+it('overrides rehydration of the base router', () => {
+  const router = extendRouter(StackRouter, {
+    getRehydratedState(partialState, options, base) {
+      return {
+        ...base.getRehydratedState(partialState, options),
+        key: 'wizard',
+      };
+    },
+  })({});
+
+  expect(
+    router.getRehydratedState(
+      { routes: [{ name: 'first' }] },
+      { routeNames: ['first', 'second'], routeParamList: {} }
+    )
+  ).toEqual({
+    stale: false,
+    type: 'stack',
+    key: 'wizard',
+    index: 0,
+    routeNames: ['first', 'second'],
+    routes: [{ key: 'first-test', name: 'first' }],
+  });
+});
+
+it('uses the overridden type for the states of the base router', () => {
+  const router = extendRouter(StackRouter, { type: 'wizard' })({});
+
+  const options = {
+    routeNames: ['first', 'second'],
+    routeParamList: {},
+  };
+
+  const state = router.getInitialState(options);
+
+  expect(router.type).toBe('wizard');
+  expect(state.type).toBe('wizard');
+  expect(
+    router.getStateForAction(state, CommonActions.navigate('second'), options)
+  ).toEqual({
+    stale: false,
+    type: 'wizard',
+    key: 'stack-test',
+    index: 1,
+    routeNames: ['first', 'second'],
+    routes: [
+      { key: 'first-test', name: 'first' },
+      { key: 'second-test', name: 'second' },
+    ],
+  });
+});
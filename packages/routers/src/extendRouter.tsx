@@ -0,0 +1,209 @@
+import type {
+  ActionCreators,
+  DefaultRouterOptions,
+  NavigationAction,
+  NavigationState,
+  PartialState,
+  Router,
+  RouterConfigOptions,
+  RouterFactory,
+} from './types';
+
+export type RouterOverrides<
+  State extends NavigationState,
+  Action extends NavigationAction,
+  BaseAction extends NavigationAction
+> = {
+  /**
+   * Type of the extended router.
+   * If not specified, the type of the base router is used.
+   * States created by the base router are updated to use this type.
+   */
+  type?: string;
+
+  /**
+   * Additional action creators for the router.
+   * These are merged with the action creators of the base router.
+   */
+  actionCreators?: ActionCreators<Action>;
+
+  /**
+   * Initialize the navigation state.
+   *
+   * @param options Router config options.
+   * @param base The base router instance.
+   */
+  getInitialState?(
+    options: RouterConfigOptions,
+    base: Router<State, BaseAction>
+  ): State;
+
+  /**
+   * Rehydrate the full navigation state from a given partial state.
+   *
+   * @param partialState Navigation state to rehydrate from.
+   * @param options Router config options.
+   * @param base The base router instance.
+   */
+  getRehydratedState?(
+    partialState: PartialState<State> | State,
+    options: RouterConfigOptions,
+    base: Router<State, BaseAction>
+  ): State;
+
+  /**
+   * Take the current state and updated list of route names, and return a new state.
+   *
+   * @param state State object to update.
+   * @param options Router config options.
+   * @param base The base router instance.
+   */
+  getStateForRouteNamesChange?(
+    state: State,
+    options: RouterConfigOptions & { routeKeyChanges?: string[] },
+    base: Router<State, BaseAction>
+  ): State;
+
+  /**
+   * Take the current state and key of a route, and return a new state with the route focused
+   *
+   * @param state State object to apply the action on.
+   * @param key Key of the route to focus.
+   * @param base The base router instance.
+   */
+  getStateForRouteFocus?(
+    state: State,
+    key: string,
+    base: Router<State, BaseAction>
+  ): State;
+
+  /**
+   * Take the current state and action, and return a new state.
+   * If `null` is returned, the action is handled by the base router instead.
+   * To prevent the base router from handling the action, return the state unchanged.
+   *
+   * @param state State object to apply the action on.
+   * @param action Action object to apply.
+   * @param options Router config options.
+   * @param base The base router instance.
+   */
+  getStateForAction?(
+    state: State,
+    action: Action,
+    options: RouterConfigOptions,
+    base: Router<State, BaseAction>
+  ): State | PartialState<State> | null;
+
+  /**
+   * Whether the action should also change focus in parent navigator
+   *
+   * @param action Action object to check.
+   * @param base The base router instance.
+   */
+  shouldActionChangeFocus?(
+    action: NavigationAction,
+    base: Router<State, BaseAction>
+  ): boolean;
+};
+
+/**
+ * Create a new router factory by extending an existing one.
+ * Any actions which aren't handled by the overrides are handled by the base router.
+ *
+ * @param createBaseRouter Factory method which returns the base router object.
+ * @param overrides Object containing the methods and action creators to override.
+ * @returns A router factory which accepts the same options as the base router.
+ */
+export default function extendRouter<
+  State extends NavigationState,
+  BaseAction extends NavigationAction,
+  RouterOptions extends DefaultRouterOptions,
+  Action extends NavigationAction = BaseAction
+>(
+  createBaseRouter: RouterFactory<State, BaseAction, RouterOptions>,
+  overrides: RouterOverrides<State, Action | BaseAction, BaseAction>
+): RouterFactory<State, Action | BaseAction, RouterOptions> {
+  return (options: RouterOptions) => {
+    const base = createBaseRouter(options);
+    const type = overrides.type ?? base.type;
+
+    // The base router creates states with its own type
+    // So we need to change it, otherwise navigators would discard the states as invalid
+    const withType = <T extends State | PartialState<State> | null>(
+      state: T
+    ): T =>
+      state !== null && type !== base.type && state.type === base.type
+        ? { ...state, type }
+        : state;
+
+    const router: Router<State, Action | BaseAction> = {
+      ...base,
+
+      type,
+
+      getInitialState(options) {
+        return withType(
+          overrides.getInitialState
+            ? overrides.getInitialState(options, base)
+            : base.getInitialState(options)
+        );
+      },
+
+      getRehydratedState(partialState, options) {
+        return withType(
+          overrides.getRehydratedState
+            ? overrides.getRehydratedState(partialState, options, base)
+            : base.getRehydratedState(partialState, options)
+        );
+      },
+
+      getStateForRouteNamesChange(state, options) {
+        return withType(
+          overrides.getStateForRouteNamesChange
+            ? overrides.getStateForRouteNamesChange(state, options, base)
+            : base.getStateForRouteNamesChange(state, options)
+        );
+      },
+
+      getStateForRouteFocus(state, key) {
+        return withType(
+          overrides.getStateForRouteFocus
+            ? overrides.getStateForRouteFocus(state, key, base)
+            : base.getStateForRouteFocus(state, key)
+        );
+      },
+
+      getStateForAction(state, action, options) {
+        if (overrides.getStateForAction) {
+          const result = overrides.getStateForAction(
+            state,
+            action,
+            options,
+            base
+          );
+
+          if (result !== null) {
+            return withType(result);
+          }
+        }
+
+        return withType(
+          base.getStateForAction(state, action as BaseAction, options)
+        );
+      },
+
+      shouldActionChangeFocus(action) {
+        return overrides.shouldActionChangeFocus
+          ? overrides.shouldActionChangeFocus(action, base)
+          : base.shouldActionChangeFocus(action);
+      },
+
+      actionCreators: {
+        ...base.actionCreators,
+        ...overrides.actionCreators,
+      },
+    };
+
+    return router;
+  };
+}
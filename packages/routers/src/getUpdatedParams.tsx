@@ -0,0 +1,28 @@
+import type { ParamListBase, Route } from './types';
+
+/**
+ * Get the params for an existing route when it's navigated to with new params.
+ *
+ * @param route The existing route object.
+ * @param params Params passed in the action, if any.
+ * @param merge Whether to shallow merge the params with the existing params instead of replacing them.
+ * @param routeParamList Object containing initial params for each route.
+ */
+export default function getUpdatedParams(
+  route: Route<string>,
+  params: object | undefined,
+  merge: boolean,
+  routeParamList: ParamListBase
+) {
+  if (params === undefined) {
+    return route.params;
+  }
+
+  if (merge) {
+    return { ...route.params, ...params };
+  }
+
+  return routeParamList[route.name] !== undefined
+    ? { ...routeParamList[route.name], ...params }
+    : params;
+}
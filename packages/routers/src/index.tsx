@@ -4,6 +4,10 @@ export { CommonActions };
 
 export { default as BaseRouter } from './BaseRouter';
 
+export { default as extendRouter } from './extendRouter';
+
+export type { RouterOverrides } from './extendRouter';
+
 export { default as StackRouter, StackActions } from './StackRouter';
 
 export type {
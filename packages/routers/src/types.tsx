@@ -101,6 +101,12 @@ export type DefaultRouterOptions = {
    * If not specified, usually the first route is used.
    */
   initialRouteName?: string;
+  /**
+   * Whether params passed when navigating to an existing route should be merged with its existing params.
+   * If `false`, the existing params are replaced instead. This can be overridden per action with `merge`.
+   * Defaults to `true`.
+   */
+  mergeParams?: boolean;
 };
 
 export type RouterFactory<
@@ -109,9 +115,19 @@ export type RouterFactory<
   RouterOptions extends DefaultRouterOptions
 > = (options: RouterOptions) => Router<State, Action>;
 
+export type RouteGetIdList = Record<
+  string,
+  ((options: { params?: object }) => string | undefined) | undefined
+>;
+
 export type RouterConfigOptions = {
   routeNames: string[];
   routeParamList: ParamListBase;
+  /**
+   * Object containing the `getId` function for each route, if specified.
+   * Routers can use it to find an existing route instance matching the ID.
+   */
+  routeGetIdList?: RouteGetIdList;
 };
 
 export type Router<
@@ -150,10 +166,11 @@ export type Router<
    * @param state State object to update.
    * @param options.routeNames New list of route names.
    * @param options.routeParamsList Object containing params for each route.
+   * @param options.routeKeyChanges List of routes names which had their `navigationKey` changed.
    */
   getStateForRouteNamesChange(
     state: State,
-    options: RouterConfigOptions
+    options: RouterConfigOptions & { routeKeyChanges?: string[] }
   ): State;
 
   /**
@@ -172,6 +189,7 @@ export type Router<
    * @param action Action object to apply.
    * @param options.routeNames List of valid route names as defined in the screen components.
    * @param options.routeParamsList Object containing params for each route.
+   * @param [options.routeGetIdList] Object containing the `getId` function for each route.
    */
   getStateForAction(
     state: State,
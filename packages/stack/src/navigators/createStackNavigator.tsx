@@ -22,7 +22,9 @@ type Props = DefaultNavigatorOptions<StackNavigationOptions> &
   StackNavigationConfig;
 
 function StackNavigator({
+  id,
   initialRouteName,
+  mergeParams,
   children,
   screenOptions,
   ...rest
@@ -41,7 +43,9 @@ function StackNavigator({
     StackNavigationOptions,
     StackNavigationEventMap
   >(StackRouter, {
+    id,
     initialRouteName,
+    mergeParams,
     children,
     screenOptions:
       typeof screenOptions === 'function'
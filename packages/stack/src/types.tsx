@@ -16,17 +16,10 @@ import type {
   StackNavigationState,
   StackActionHelpers,
   RouteProp,
+  EventMapCore,
 } from '@react-navigation/native';
 
 export type StackNavigationEventMap = {
-  /**
-   * Event which fires when a transition animation starts.
-   */
-  transitionStart: { data: { closing: boolean } };
-  /**
-   * Event which fires when a transition animation ends.
-   */
-  transitionEnd: { data: { closing: boolean } };
   /**
    * Event which fires when navigation gesture starts.
    */
@@ -43,7 +36,7 @@ export type StackNavigationEventMap = {
 
 export type StackNavigationHelpers = NavigationHelpers<
   ParamListBase,
-  StackNavigationEventMap
+  StackNavigationEventMap & EventMapCore<StackNavigationState>
 >;
 
 export type StackNavigationProp<